@@ -0,0 +1,75 @@
+/**
+ * 工具调用检测的延迟对比
+ * 「流式输出后再 invoke 一次读取工具调用」（每轮推理两次）与「从流式块中直接拼接工具调用」（每轮推理一次）
+ *
+ * 用法：pnpm bench:tools [模型] [轮数]
+ * Ollama 地址通过环境变量 OLLAMA_BASE_URL 指定，默认 http://localhost:11434
+ */
+import { HumanMessage } from '@langchain/core/messages';
+import { tool } from '@langchain/core/tools';
+import { ChatOllama } from '@langchain/ollama';
+import { z } from 'zod';
+
+const model = process.argv[2] || 'qwen3:0.6b';
+const runs = Number(process.argv[3]) || 5;
+const baseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+
+const getWeather = tool(async () => '晴，25°C', {
+  name: 'getWeather',
+  description: '查询城市的实时天气',
+  schema: z.object({ location: z.string().describe('城市名称') }),
+});
+
+const chatModel = new ChatOllama({ baseUrl, model, temperature: 0.7 }).bindTools([getWeather]);
+
+// 一个问题需要调用工具，一个不需要
+const PROMPTS = ['北京今天天气怎么样？', '用一句话介绍一下你自己。'];
+
+// 旧实现：流式输出后再调用一次 invoke 读取工具调用
+const streamThenInvoke = async (messages) => {
+  for await (const chunk of await chatModel.stream(messages)) void chunk;
+  const response = await chatModel.invoke(messages);
+  return response.tool_calls ?? [];
+};
+
+// 新实现：流式输出的同时拼接完整消息
+const singlePass = async (messages) => {
+  let message = null;
+  for await (const chunk of await chatModel.stream(messages)) {
+    message = message ? message.concat(chunk) : chunk;
+  }
+  return message?.tool_calls ?? [];
+};
+
+const measure = async (name, run) => {
+  const durations = [];
+  let toolCalls = 0;
+  for (let i = 0; i < runs; i++) {
+    for (const prompt of PROMPTS) {
+      const start = performance.now();
+      toolCalls += (await run([new HumanMessage(prompt)])).length;
+      durations.push(performance.now() - start);
+    }
+  }
+  durations.sort((a, b) => a - b);
+  return {
+    '方式': name,
+    '平均耗时(ms)': Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length),
+    'P50(ms)': Math.round(durations[Math.floor(durations.length / 2)]),
+    '工具调用次数': toolCalls,
+  };
+};
+
+try {
+  console.log(`⏱️ [Benchmark] 模型 ${model}，每种方式 ${runs} 轮 × ${PROMPTS.length} 个问题`);
+  // 预热：首次请求包含模型加载时间，不计入结果
+  await singlePass([new HumanMessage('你好')]);
+  const before = await measure('stream + invoke（旧）', streamThenInvoke);
+  const after = await measure('单次流式（新）', singlePass);
+  console.table([before, after]);
+  const saved = 1 - after['平均耗时(ms)'] / before['平均耗时(ms)'];
+  console.log(`📉 [Benchmark] 单次流式平均耗时减少 ${Math.round(saved * 100)}%`);
+} catch (error) {
+  console.error(`❌ [Benchmark] 请求失败，请确认 Ollama 已在 ${baseUrl} 运行并已拉取模型 ${model}:`, error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,51 @@
+/**
+ * 跨域访问控制（服务端）
+ * 前端与服务不同源时（如前端单独部署），只有允许的来源可以调用工具代理和 Ollama 代理
+ */
+import type { IncomingMessage } from 'node:http';
+import type { Middleware } from './secrets.ts';
+
+/**
+ * 解析 ALLOWED_ORIGINS 环境变量（逗号分隔）
+ */
+export const parseAllowedOrigins = (value?: string): string[] =>
+  (value ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+
+/**
+ * 判断请求来源能否调用代理：没有 Origin 的请求（非浏览器或同源 GET）、与服务同源或在允许列表中的来源
+ * 不需要预检的跨域请求（如 text/plain 的 POST）会直接到达服务端，CORS 响应头拦不住，必须在代理中拒绝
+ */
+export const isAllowedOrigin = (req: IncomingMessage, allowedOrigins: string[]) => {
+  const origin = req.headers.origin;
+  if (!origin || allowedOrigins.includes('*') || allowedOrigins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    // Origin 为 null 等无法解析的值
+    return false;
+  }
+};
+
+/**
+ * 创建跨域中间件
+ * @param allowedOrigins 允许的来源，如 https://chat.example.com；包含 * 时允许任意来源
+ */
+export const createCors = (allowedOrigins: string[]): Middleware => (req, res, next) => {
+  const origin = req.headers.origin;
+  const allowed = !!origin && (allowedOrigins.includes('*') || allowedOrigins.includes(origin));
+
+  if (allowed) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] ?? 'Content-Type');
+    res.setHeader('Access-Control-Max-Age', '600');
+  }
+  res.setHeader('Vary', 'Origin');
+
+  // 预检请求：允许的来源返回 204，其他来源返回 403
+  if (req.method === 'OPTIONS' && req.headers['access-control-request-method']) {
+    res.writeHead(allowed ? 204 : 403).end();
+    return;
+  }
+  next();
+};
@@ -0,0 +1,76 @@
+/**
+ * 独立服务入口
+ * 提供构建后的前端页面、工具代理（注入凭据）和凭据管理接口，可选代理 Ollama，
+ * 让 vite build 的产物脱离开发服务器也能使用天气等工具
+ *
+ * 环境变量：
+ * - PORT / HOST：监听端口和地址，默认 8787 / 0.0.0.0
+ * - STATIC_DIR：前端构建产物目录，默认 dist
+ * - OLLAMA_PROXY_TARGET：设置后在 /ollama 下代理该 Ollama 服务，如 http://localhost:11434
+ * - ALLOWED_ORIGINS：允许跨域访问的来源，逗号分隔，* 表示任意来源
+ * - QWEATHER_API_KEY / QWEATHER_API_HOST：和风天气凭据
+ * - TOOL_SECRETS_TOKEN：在设置面板中修改凭据所需的管理令牌，未设置时不允许在线修改
+ *   （服务常部署在反向代理之后，所有请求都来自本机，不能按来源地址判断）
+ */
+import http from 'node:http';
+import { createCors, parseAllowedOrigins } from './cors.ts';
+import { createOllamaProxy, OLLAMA_PROXY_PREFIX } from './ollamaProxy.ts';
+import { createSecretStore, createSecretsApi, sendJson, type Middleware } from './secrets.ts';
+import { createStaticHandler } from './static.ts';
+import { createToolProxy } from './toolProxy.ts';
+
+// 读取项目根目录的 .env（已经存在的环境变量优先）
+try {
+  process.loadEnvFile('.env');
+} catch {
+  // 没有 .env 文件时只使用环境变量
+}
+
+const env = process.env;
+const port = Number(env.PORT) || 8787;
+const host = env.HOST || '0.0.0.0';
+const allowedOrigins = parseAllowedOrigins(env.ALLOWED_ORIGINS);
+const store = createSecretStore(process.cwd(), env);
+
+const middlewares: Middleware[] = [
+  createCors(allowedOrigins),
+  createSecretsApi(store, { adminToken: env.TOOL_SECRETS_TOKEN, allowLoopback: false }),
+  createToolProxy(store, allowedOrigins),
+  ...(env.OLLAMA_PROXY_TARGET ? [createOllamaProxy(env.OLLAMA_PROXY_TARGET, allowedOrigins)] : []),
+  createStaticHandler(env.STATIC_DIR || 'dist'),
+];
+
+// 依次执行中间件，全部跳过时返回 404
+const handle = (req: http.IncomingMessage, res: http.ServerResponse, index = 0) => {
+  const middleware = middlewares[index];
+  if (!middleware) {
+    sendJson(res, 404, { error: 'Not Found' });
+    return;
+  }
+  try {
+    middleware(req, res, (error) => {
+      if (error) {
+        console.error('❌ [Server] 请求处理失败:', error);
+        sendJson(res, 500, { error: '服务器错误' });
+        return;
+      }
+      handle(req, res, index + 1);
+    });
+  } catch (error) {
+    console.error('❌ [Server] 请求处理失败:', error);
+    if (!res.headersSent) sendJson(res, 500, { error: '服务器错误' });
+  }
+};
+
+http.createServer((req, res) => handle(req, res)).listen(port, host, () => {
+  console.log(`🚀 [Server] 已启动: http://${host === '0.0.0.0' ? 'localhost' : host}:${port}`);
+  if (!store.get('qweather', 'apiKey')) {
+    console.warn('⚠️ [Server] 未配置和风天气 API Key，天气查询功能将无法使用');
+  }
+  if (env.OLLAMA_PROXY_TARGET) {
+    console.log(`🦙 [Server] Ollama 代理: ${OLLAMA_PROXY_PREFIX} -> ${env.OLLAMA_PROXY_TARGET}`);
+  }
+  if (allowedOrigins.length > 0) {
+    console.log(`🌐 [Server] 允许跨域来源: ${allowedOrigins.join(', ')}`);
+  }
+});
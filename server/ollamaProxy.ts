@@ -0,0 +1,68 @@
+/**
+ * Ollama 代理（服务端，可选）
+ * 把 /ollama/* 转发到配置的 Ollama 服务，浏览器只访问同源（或允许的来源）地址，
+ * 不需要在远程 Ollama 上配置 OLLAMA_ORIGINS；请求体和流式响应直接透传
+ */
+import http from 'node:http';
+import https from 'node:https';
+import { isAllowedOrigin } from './cors.ts';
+import { sendJson, type Middleware } from './secrets.ts';
+
+export const OLLAMA_PROXY_PREFIX = '/ollama';
+
+// 不转发的请求头：浏览器来源信息会让 Ollama 按跨域请求校验（来源已由代理校验）
+const SKIPPED_REQUEST_HEADERS = ['host', 'origin', 'referer', 'connection'];
+
+/**
+ * 创建 Ollama 代理中间件
+ * @param target Ollama 服务地址，如 http://localhost:11434
+ * @param allowedOrigins 除同源外允许调用代理的来源
+ */
+export const createOllamaProxy = (target: string, allowedOrigins: string[] = []): Middleware => {
+  const base = new URL(target);
+  const client = base.protocol === 'https:' ? https : http;
+
+  return (req, res, next) => {
+    const url = req.url ?? '';
+    if (url !== OLLAMA_PROXY_PREFIX && !url.startsWith(`${OLLAMA_PROXY_PREFIX}/`)) {
+      next();
+      return;
+    }
+    if (!isAllowedOrigin(req, allowedOrigins)) {
+      console.warn(`⚠️ [Ollama Proxy] 拒绝来源: ${req.headers.origin}`);
+      sendJson(res, 403, { error: '不允许的请求来源' });
+      return;
+    }
+
+    // 拼接字符串而不是 new URL(path, base)：//host/... 形式的路径会被解析为协议相对地址，把请求转发到任意主机
+    const upstreamUrl = new URL(`${base.origin}${base.pathname.replace(/\/$/, '')}${url.slice(OLLAMA_PROXY_PREFIX.length) || '/'}`);
+    if (upstreamUrl.origin !== base.origin) {
+      sendJson(res, 400, { error: 'Bad Request' });
+      return;
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(req.headers).filter(([key]) => !SKIPPED_REQUEST_HEADERS.includes(key))
+    );
+    const upstream = client.request(
+      upstreamUrl,
+      { method: req.method, headers },
+      (response) => {
+        res.writeHead(response.statusCode ?? 502, response.headers);
+        response.pipe(res);
+      }
+    );
+
+    upstream.on('error', (error) => {
+      console.error('❌ [Ollama Proxy] 代理请求失败:', error);
+      if (!res.headersSent) {
+        sendJson(res, 502, { error: `无法连接 Ollama（${target}）`, message: error.message });
+      } else {
+        res.end();
+      }
+    });
+    // 中断生成时浏览器会关闭连接，同时中断上游请求，让 Ollama 停止生成
+    res.on('close', () => upstream.destroy());
+    req.pipe(upstream);
+  };
+};
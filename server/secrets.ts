@@ -0,0 +1,257 @@
+/**
+ * 工具凭据（服务端）
+ * 凭据来自本地密钥文件 secrets.local.json 或环境变量，只在代理请求时由服务端注入，不会进入前端打包产物；
+ * 设置面板通过 /__tool-secrets 接口查看配置状态（密钥只返回掩码）和修改密钥文件，修改后立即生效
+ */
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export const SECRETS_FILE = 'secrets.local.json';
+export const SECRETS_API_PATH = '/__tool-secrets';
+
+/**
+ * 凭据字段定义
+ */
+export interface SecretField {
+  key: string; // 密钥文件中的字段名
+  label: string; // 展示名称
+  env: string; // 对应的环境变量
+  secret: boolean; // 是否为敏感信息（接口只返回掩码）
+  placeholder?: string;
+  defaultValue?: string; // 未配置时使用的默认值
+}
+
+/**
+ * 工具凭据定义
+ */
+export interface ToolSecretDefinition {
+  id: string; // 工具标识，也是密钥文件中的顶层字段
+  title: string;
+  fields: SecretField[];
+}
+
+// 需要凭据的工具，新增工具时在这里声明
+export const TOOL_SECRETS: ToolSecretDefinition[] = [
+  {
+    id: 'qweather',
+    title: '和风天气',
+    fields: [
+      { key: 'apiKey', label: 'API Key', env: 'QWEATHER_API_KEY', secret: true },
+      {
+        key: 'apiHost',
+        label: 'API Host',
+        env: 'QWEATHER_API_HOST',
+        secret: false,
+        placeholder: 'https://xxxx.re.qweatherapi.com',
+        defaultValue: 'https://devapi.qweather.com',
+      },
+    ],
+  },
+];
+
+// 凭据来源：密钥文件优先于环境变量
+export type SecretSource = 'file' | 'env' | 'default';
+
+/**
+ * 返回给设置面板的字段状态
+ */
+export interface SecretFieldStatus {
+  key: string;
+  label: string;
+  env: string;
+  secret: boolean;
+  placeholder?: string;
+  source: SecretSource | null; // 未配置时为 null
+  value?: string; // 非敏感字段的当前值
+  preview?: string; // 敏感字段的掩码，如 ••••db00
+}
+
+export interface ToolSecretStatus {
+  id: string;
+  title: string;
+  fields: SecretFieldStatus[];
+}
+
+type SecretsFile = Record<string, Record<string, string>>;
+
+// connect 风格的中间件，Vite 开发服务器和独立服务共用
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: (error?: unknown) => void) => void;
+
+const mask = (value: string) => `••••${value.slice(-4)}`;
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+// 只允许本机修改凭据，避免局域网内的其他设备改写密钥
+const isLoopback = (req: IncomingMessage) =>
+  ['127.0.0.1', '::1', '::ffff:127.0.0.1'].includes(req.socket.remoteAddress ?? '');
+
+// 比较哈希值，避免按字符比较泄露令牌长度和内容
+const tokenMatches = (received: string, expected: string) => {
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(hash(received), hash(expected));
+};
+
+/**
+ * 凭据管理接口的修改权限
+ */
+export interface SecretsApiOptions {
+  adminToken?: string; // 设置后修改凭据需要携带 Authorization: Bearer <令牌>，不再限制本机
+  // 未设置令牌时是否允许本机修改，默认允许；服务在反向代理之后时所有请求都来自本机，不能以此判断
+  allowLoopback?: boolean;
+}
+
+/**
+ * 凭据存储
+ */
+export interface SecretStore {
+  get(toolId: string, key: string): string | undefined;
+  describe(): ToolSecretStatus[];
+  update(patch: SecretsFile): void;
+}
+
+/**
+ * 创建凭据存储，每次读取都重新读取密钥文件，修改后无需重启
+ * @param root 项目根目录（密钥文件所在目录）
+ * @param env 环境变量
+ */
+export const createSecretStore = (root: string, env: Record<string, string | undefined>): SecretStore => {
+  const file = path.resolve(root, SECRETS_FILE);
+  const warned = new Set<string>();
+
+  const readFile = (): SecretsFile => {
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8')) as SecretsFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`❌ [Secrets] 读取 ${SECRETS_FILE} 失败:`, error);
+      }
+      return {};
+    }
+  };
+
+  const fromEnv = (field: SecretField) => {
+    if (env[field.env]) return env[field.env];
+    // 兼容旧的 VITE_ 前缀变量：服务端可以读取，但提示改名，避免被前端代码引用后打包
+    const legacy = env[`VITE_${field.env}`];
+    if (legacy && !warned.has(field.env)) {
+      warned.add(field.env);
+      console.warn(`⚠️ [Secrets] VITE_${field.env} 已废弃，VITE_ 前缀的变量可能被打包到前端，请改为 ${field.env}`);
+    }
+    return legacy;
+  };
+
+  const resolve = (toolId: string, field: SecretField): { value?: string; source: SecretSource | null } => {
+    const saved = readFile()[toolId]?.[field.key];
+    if (saved) return { value: saved, source: 'file' };
+    const envValue = fromEnv(field);
+    if (envValue) return { value: envValue, source: 'env' };
+    if (field.defaultValue) return { value: field.defaultValue, source: 'default' };
+    return { source: null };
+  };
+
+  const findField = (toolId: string, key: string) =>
+    TOOL_SECRETS.find(tool => tool.id === toolId)?.fields.find(field => field.key === key);
+
+  return {
+    get(toolId, key) {
+      const field = findField(toolId, key);
+      return field ? resolve(toolId, field).value : undefined;
+    },
+
+    describe() {
+      return TOOL_SECRETS.map(tool => ({
+        id: tool.id,
+        title: tool.title,
+        fields: tool.fields.map(field => {
+          const { value, source } = resolve(tool.id, field);
+          return {
+            key: field.key,
+            label: field.label,
+            env: field.env,
+            secret: field.secret,
+            placeholder: field.placeholder,
+            source,
+            ...(value && (field.secret ? { preview: mask(value) } : { value })),
+          };
+        }),
+      }));
+    },
+
+    // 只修改传入的字段，空字符串表示从密钥文件中删除（回退到环境变量）
+    update(patch) {
+      const saved = readFile();
+      for (const [toolId, values] of Object.entries(patch)) {
+        for (const [key, value] of Object.entries(values ?? {})) {
+          if (!findField(toolId, key) || typeof value !== 'string') {
+            throw new Error(`未知的凭据字段: ${toolId}.${key}`);
+          }
+          const tool = (saved[toolId] ??= {});
+          if (value.trim()) {
+            tool[key] = value.trim();
+          } else {
+            delete tool[key];
+          }
+        }
+      }
+      fs.writeFileSync(file, `${JSON.stringify(saved, null, 2)}\n`, { mode: 0o600 });
+      console.log(`🔐 [Secrets] 已更新 ${SECRETS_FILE}`);
+    },
+  };
+};
+
+/**
+ * 凭据管理接口：GET 返回配置状态，PUT 修改密钥文件（需要管理令牌，未设置令牌时仅限本机）
+ */
+export const createSecretsApi = (
+  store: SecretStore,
+  { adminToken, allowLoopback = true }: SecretsApiOptions = {}
+): Middleware => (req, res, next) => {
+  if (req.url?.split('?')[0] !== SECRETS_API_PATH) {
+    next();
+    return;
+  }
+
+  if (req.method === 'GET') {
+    sendJson(res, 200, store.describe());
+    return;
+  }
+
+  if (req.method === 'PUT') {
+    if (adminToken) {
+      const token = req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+      if (!tokenMatches(token, adminToken)) {
+        sendJson(res, 401, { error: '管理令牌错误，请填写服务端 TOOL_SECRETS_TOKEN 的值' });
+        return;
+      }
+    } else if (!allowLoopback) {
+      sendJson(res, 403, { error: '服务端未设置 TOOL_SECRETS_TOKEN，不允许在线修改工具凭据' });
+      return;
+    } else if (!isLoopback(req)) {
+      sendJson(res, 403, { error: '只允许在本机修改工具凭据' });
+      return;
+    }
+    readBody(req)
+      .then(body => {
+        store.update(JSON.parse(body || '{}'));
+        sendJson(res, 200, store.describe());
+      })
+      .catch(error => sendJson(res, 400, { error: error instanceof Error ? error.message : '保存失败' }));
+    return;
+  }
+
+  sendJson(res, 405, { error: 'Method Not Allowed' });
+};
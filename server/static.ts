@@ -0,0 +1,75 @@
+/**
+ * 静态文件服务（服务端）
+ * 提供 vite build 的产物，找不到文件的页面请求回退到 index.html
+ */
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Middleware } from './secrets.ts';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.wasm': 'application/wasm',
+  '.map': 'application/json; charset=utf-8',
+};
+
+const sendFile = (res: Parameters<Middleware>[1], file: string, immutable: boolean) => {
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream',
+    // 带哈希的构建产物可以长期缓存，index.html 每次都重新验证
+    'Cache-Control': immutable ? 'public, max-age=31536000, immutable' : 'no-cache',
+  });
+  fs.createReadStream(file).pipe(res);
+};
+
+/**
+ * 创建静态文件中间件
+ * @param dir 构建产物目录
+ */
+export const createStaticHandler = (dir: string): Middleware => {
+  const root = path.resolve(dir);
+  const index = path.join(root, 'index.html');
+
+  return (req, res, next) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      next();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url ?? '/', 'http://localhost').pathname);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+    const file = path.join(root, pathname);
+    // 防止 ../（包括编码后的 %2F）访问到目录之外的文件
+    if (file !== root && !file.startsWith(`${root}${path.sep}`)) {
+      res.writeHead(403).end();
+      return;
+    }
+
+    fs.stat(file, (error, stats) => {
+      if (!error && stats.isFile()) {
+        sendFile(res, file, pathname.startsWith('/assets/'));
+        return;
+      }
+      // 带扩展名的路径视为缺失的资源，其余交给前端路由
+      if (path.extname(pathname) || !fs.existsSync(index)) {
+        next();
+        return;
+      }
+      sendFile(res, index, false);
+    });
+  };
+};
@@ -0,0 +1,88 @@
+/**
+ * 工具 API 代理（服务端）
+ * 前端工具请求同源路径（如 /qweather/v7/weather/now），由服务端转发到第三方 API 并注入凭据，
+ * 解决浏览器跨域限制，同时保证凭据不出现在前端
+ */
+import { isAllowedOrigin } from './cors.ts';
+import { sendJson, type Middleware, type SecretStore } from './secrets.ts';
+
+/**
+ * 代理路由
+ */
+interface ProxyRoute {
+  prefix: string; // 前端请求的路径前缀
+  toolId: string; // 对应的工具凭据
+  target: (store: SecretStore) => string | undefined; // 转发的目标地址
+  headers: (store: SecretStore) => Record<string, string> | null; // 注入的请求头，缺少凭据时返回 null
+  missingHint: string; // 缺少凭据时的提示
+}
+
+export const TOOL_PROXY_ROUTES: ProxyRoute[] = [
+  {
+    prefix: '/qweather',
+    toolId: 'qweather',
+    target: store => store.get('qweather', 'apiHost'),
+    headers: store => {
+      const apiKey = store.get('qweather', 'apiKey');
+      return apiKey ? { 'X-QW-Api-Key': apiKey } : null;
+    },
+    missingHint: '未配置和风天气 API Key，请在设置面板的「工具凭据」中填写，或设置环境变量 QWEATHER_API_KEY',
+  },
+];
+
+// 转发请求时需要去掉的响应头：fetch 已解压响应体，长度和编码都会变化
+const SKIPPED_RESPONSE_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding', 'connection'];
+
+/**
+ * 创建工具代理中间件（只转发 GET 请求）
+ * @param allowedOrigins 除同源外允许调用代理的来源
+ */
+export const createToolProxy = (store: SecretStore, allowedOrigins: string[] = []): Middleware => (req, res, next) => {
+  const url = req.url ?? '';
+  const route = TOOL_PROXY_ROUTES.find(item => url === item.prefix || url.startsWith(`${item.prefix}/`));
+  if (!route) {
+    next();
+    return;
+  }
+  if (!isAllowedOrigin(req, allowedOrigins)) {
+    console.warn(`⚠️ [Tool Proxy] 拒绝来源: ${req.headers.origin}`);
+    sendJson(res, 403, { error: '不允许的请求来源' });
+    return;
+  }
+  if (req.method !== 'GET') {
+    sendJson(res, 405, { error: 'Method Not Allowed' });
+    return;
+  }
+
+  const target = route.target(store);
+  const headers = route.headers(store);
+  if (!target || !headers) {
+    console.warn(`⚠️ [Tool Proxy] ${route.toolId} 缺少凭据`);
+    sendJson(res, 401, { error: route.missingHint });
+    return;
+  }
+
+  const upstream = `${target.replace(/\/$/, '')}${url.slice(route.prefix.length)}`;
+  const controller = new AbortController();
+  res.on('close', () => controller.abort());
+
+  fetch(upstream, {
+    headers: { 'Accept': 'application/json', 'Accept-Encoding': 'gzip', ...headers },
+    signal: controller.signal,
+  })
+    .then(async response => {
+      const body = Buffer.from(await response.arrayBuffer());
+      response.headers.forEach((value, key) => {
+        if (!SKIPPED_RESPONSE_HEADERS.includes(key)) res.setHeader(key, value);
+      });
+      res.writeHead(response.status);
+      res.end(body);
+    })
+    .catch(error => {
+      if (controller.signal.aborted) return;
+      console.error(`❌ [Tool Proxy] 代理请求失败: ${route.prefix}`, error);
+      if (!res.headersSent) {
+        sendJson(res, 502, { error: '代理请求失败', message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+};
@@ -1,12 +1,23 @@
-import { useState, useEffect, useCallback } from 'react';
-import { useChat } from './hooks/useChat';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useChat, type SendOptions } from './hooks/useChat';
+import { useSessions } from './hooks/useSessions';
+import { useModels } from './hooks/useModels';
+import { useHealth } from './hooks/useHealth';
+import { useKnowledgeBases } from './hooks/useKnowledgeBases';
 import { ChatContainer } from './components/ChatContainer';
 import { ChatInput } from './components/ChatInput';
 import { Sidebar } from './components/Sidebar';
 import { SettingsPanel } from './components/SettingsPanel';
-import { UserInfoCard } from './components/UserInfoCard';
-import { OLLAMA_CONFIG, type OllamaConfig } from './types';
+import { ModelSelector } from './components/ModelSelector';
+import { HealthIndicator } from './components/HealthIndicator';
+import { OLLAMA_CONFIG, type Attachment, type OllamaConfig, type SamplingOptions } from './types';
 import { updateOllamaConfig } from './lib/langchain';
+import { isSameModel } from './lib/ollamaApi';
+import { findSchema, loadSchemas } from './lib/extractionSchemas';
+import { downloadConversation, type ExportFormat } from './lib/conversationExport';
+import { parseConversationFile } from './lib/conversationImport';
+import type { SlashCommandName } from './lib/slashCommands';
+import { listTools } from './tools';
 import './App.css';
 
 function App() {
@@ -14,14 +25,14 @@ function App() {
   const [enableStream, setEnableStream] = useState(true);
   const [useAgent, setUseAgent] = useState(false);
   const [useSmartTool, setUseSmartTool] = useState(true); // 默认启用智能工具调用
-  const [systemPrompt, setSystemPrompt] = useState('');
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [currentConfig, setCurrentConfig] = useState<OllamaConfig>(() => {
     const savedConfig = localStorage.getItem('ollamaConfig');
     if (savedConfig) {
       try {
-        return JSON.parse(savedConfig) as OllamaConfig;
+        // 合并默认值，兼容旧版本保存的配置缺少新字段
+        return { ...OLLAMA_CONFIG, ...JSON.parse(savedConfig) } as OllamaConfig;
       } catch {
         // 解析失败，使用默认配置
         return OLLAMA_CONFIG;
@@ -30,78 +41,278 @@ function App() {
     return OLLAMA_CONFIG;
   });
 
-  // currentConfig 变化时同步到 langchain
+  // 会话管理
+  const {
+    sessions,
+    activeSession,
+    switchSession,
+    newSession,
+    importSessions,
+    renameSession,
+    deleteSession,
+    updateSession,
+  } = useSessions({ model: currentConfig.model });
+  const { models, refresh: refreshModels } = useModels(currentConfig);
+  const systemPrompt = activeSession?.systemPrompt ?? '';
+  const disabledTools = activeSession?.disabledTools ?? [];
+  const { knowledgeBases, refresh: refreshKnowledgeBases } = useKnowledgeBases();
+  // 忽略已被删除的知识库
+  const knowledgeBaseIds = (activeSession?.knowledgeBaseIds ?? [])
+    .filter(id => knowledgeBases.some(knowledgeBase => knowledgeBase.id === id));
+
+  // currentConfig 或当前会话的模型变化时同步到 langchain
   const handleConfigChange = useCallback((config: OllamaConfig) => {
     updateOllamaConfig(config);
   }, []);
 
+  const sessionModel = activeSession?.model || currentConfig.model;
+  const sessionSampling = activeSession?.sampling;
+  const { health, recheck: recheckHealth } = useHealth(currentConfig, sessionModel);
+  // 当前会话实际使用的配置：会话的模型和生成参数覆盖全局配置
+  const effectiveConfig = useMemo<OllamaConfig>(
+    () => ({ ...currentConfig, ...sessionSampling, model: sessionModel }),
+    [currentConfig, sessionSampling, sessionModel]
+  );
   useEffect(() => {
-    handleConfigChange(currentConfig);
-  }, [currentConfig, handleConfigChange]);
+    handleConfigChange(effectiveConfig);
+  }, [effectiveConfig, handleConfigChange]);
 
   // 使用聊天 hook
-  const { messages, isLoading, error, streamingResponse, streamingThinking, extractedUser, toolCallResult, sendMessage, clearMessages } = useChat();
+  const {
+    messages,
+    branches,
+    isLoading,
+    error,
+    streamingResponse,
+    streamingThinking,
+    streamingToolCalls,
+    streamingToolDrafts,
+    updateExtraction,
+    sendMessage,
+    stopGeneration,
+    retry,
+    regenerate,
+    editMessage,
+    switchBranch,
+    clearMessages,
+  } = useChat(activeSession, updateSession);
+
+  // 当前侧边栏设置对应的发送选项
+  const getSendOptions = (): SendOptions => ({
+    systemPrompt: systemPrompt || undefined,
+    stream: enableStream,
+    useAgent,
+    useSmartTool,
+    enabledTools: listTools().map(tool => tool.name).filter(name => !disabledTools.includes(name)),
+    knowledgeBaseIds,
+    extractionSchema: findSchema(loadSchemas(), activeSession?.extractionSchemaId),
+  });
 
   // 发送消息处理
-  const handleSendMessage = async (message: string) => {
-    await sendMessage(message, {
-      systemPrompt: systemPrompt || undefined,
-      stream: enableStream,
-      useAgent,
-      useSmartTool,
-    });
+  // 错误已由 useChat 显示在输入框上方
+  const handleSendMessage = (message: string, attachments: Attachment[]) => {
+    sendMessage(message, getSendOptions(), attachments).catch(() => {});
+  };
+
+  // 当前模型是否支持图片输入（模型信息中没有能力列表时视为未知）
+  const capabilities = models.find(model => isSameModel(model.name, sessionModel))?.capabilities;
+  const supportsVision = capabilities ? capabilities.includes('vision') : undefined;
+
+  // 重试失败的请求，同时刷新连接状态
+  const handleRetry = () => {
+    recheckHealth();
+    retry().catch(() => {});
   };
 
   // 保存配置
   const handleSaveConfig = useCallback((config: OllamaConfig) => {
     setCurrentConfig(config);
-    handleConfigChange(config);
-  }, [handleConfigChange]);
+    // 设置中修改的模型同时应用到当前会话
+    if (activeSession) {
+      updateSession(activeSession.id, { model: config.model });
+    }
+  }, [activeSession, updateSession]);
+
+  const handleSystemPromptChange = useCallback((prompt: string) => {
+    if (activeSession) {
+      updateSession(activeSession.id, { systemPrompt: prompt });
+    }
+  }, [activeSession, updateSession]);
+
+  // 顶部切换模型只作用于当前会话
+  const handleModelChange = useCallback((model: string) => {
+    if (activeSession) {
+      updateSession(activeSession.id, { model });
+    }
+  }, [activeSession, updateSession]);
+
+  const handleSamplingChange = useCallback((sampling: Partial<SamplingOptions>) => {
+    if (activeSession) {
+      updateSession(activeSession.id, { sampling });
+    }
+  }, [activeSession, updateSession]);
+
+  const handleToggleTool = useCallback((name: string, enabled: boolean) => {
+    if (activeSession) {
+      updateSession(activeSession.id, session => {
+        const disabled = (session.disabledTools ?? []).filter(tool => tool !== name);
+        return { disabledTools: enabled ? disabled : [...disabled, name] };
+      });
+    }
+  }, [activeSession, updateSession]);
+
+  const handleExtractionSchemaChange = useCallback((extractionSchemaId: string) => {
+    if (activeSession) {
+      updateSession(activeSession.id, { extractionSchemaId });
+    }
+  }, [activeSession, updateSession]);
+
+  const handleToggleKnowledgeBase = useCallback((id: string, enabled: boolean) => {
+    if (activeSession) {
+      updateSession(activeSession.id, session => {
+        const ids = (session.knowledgeBaseIds ?? []).filter(knowledgeBaseId => knowledgeBaseId !== id);
+        return { knowledgeBaseIds: enabled ? [...ids, id] : ids };
+      });
+    }
+  }, [activeSession, updateSession]);
+
+  // 导出当前会话
+  const handleExport = useCallback((format: ExportFormat) => {
+    if (!activeSession) return;
+    downloadConversation(activeSession, format, effectiveConfig)
+      .catch(error => console.error('❌ [Export] 导出会话失败:', error));
+  }, [activeSession, effectiveConfig]);
+
+  // 导入会话文件
+  const handleImport = useCallback(async (file: File) => {
+    try {
+      const imported = parseConversationFile(await file.text());
+      if (imported.length === 0) {
+        throw new Error('文件中没有可导入的消息');
+      }
+      importSessions(imported);
+      console.log(`📥 [Import] 已导入 ${imported.length} 个会话`);
+    } catch (error) {
+      console.error('❌ [Import] 导入会话失败:', error);
+      alert(error instanceof Error ? error.message : '导入会话失败');
+    }
+  }, [importSessions]);
+
+  // 运行输入框中的斜杠命令（发送失败的错误已由 useChat 显示在输入框上方）
+  const handleCommand = (name: SlashCommandName, args: string) => {
+    switch (name) {
+      case 'clear':
+        clearMessages();
+        break;
+      case 'model':
+        handleModelChange(models.find(model => isSameModel(model.name, args))?.name ?? args);
+        break;
+      case 'weather':
+        // 只启用实时天气工具，确保本次回答调用工具
+        sendMessage(`查询${args}的实时天气`, {
+          ...getSendOptions(),
+          useAgent: false,
+          useSmartTool: true,
+          enabledTools: ['getWeather'],
+        }).catch(() => {});
+        break;
+      case 'extract':
+        sendMessage(args, { ...getSendOptions(), useAgent: true, useSmartTool: false }).catch(() => {});
+        break;
+    }
+  };
 
   return (
     <div className="app">
       <header className="app-header">
         <h1>AI Chat - LangChain + Ollama</h1>
         <div className="header-controls">
+          <HealthIndicator health={health} model={sessionModel} onRecheck={recheckHealth} />
+          <ModelSelector
+            models={models}
+            value={sessionModel}
+            disabled={isLoading}
+            onChange={handleModelChange}
+          />
+          <select
+            className="model-selector"
+            value=""
+            disabled={!activeSession || activeSession.messages.length === 0}
+            onChange={(e) => handleExport(e.target.value as ExportFormat)}
+            title="导出当前会话"
+          >
+            <option value="" disabled>导出</option>
+            <option value="markdown">Markdown</option>
+            <option value="html">HTML</option>
+            <option value="json">JSON（可导入）</option>
+          </select>
           <button onClick={() => setIsSettingsOpen(true)}>设置</button>
           <button onClick={clearMessages}>清空聊天</button>
         </div>
       </header>
 
       <Sidebar
+        sessions={sessions}
+        activeSessionId={activeSession?.id ?? null}
         enableStream={enableStream}
         enableThinking={currentConfig.showThinking}
         useAgent={useAgent}
         useSmartTool={useSmartTool}
         systemPrompt={systemPrompt}
-        messageCount={messages.length}
-        toolCallResult={toolCallResult}
+        disabledTools={disabledTools}
+        knowledgeBases={knowledgeBases}
+        knowledgeBaseIds={knowledgeBaseIds}
+        extractionSchemaId={activeSession?.extractionSchemaId}
+        sessionMessages={activeSession?.messages ?? []}
         isCollapsed={isSidebarCollapsed}
-        ollamaConfig={currentConfig}
+        ollamaConfig={effectiveConfig}
+        samplingDefaults={currentConfig}
+        samplingOverrides={sessionSampling ?? {}}
         onToggleCollapse={() => setIsSidebarCollapsed(!isSidebarCollapsed)}
         onEnableStreamChange={setEnableStream}
         onEnableThinkingChange={() => {}}
         onUseAgentChange={setUseAgent}
         onUseSmartToolChange={setUseSmartTool}
-        onSystemPromptChange={setSystemPrompt}
+        onSystemPromptChange={handleSystemPromptChange}
+        onToggleTool={handleToggleTool}
+        onToggleKnowledgeBase={handleToggleKnowledgeBase}
+        onExtractionSchemaChange={handleExtractionSchemaChange}
+        onSamplingChange={handleSamplingChange}
+        onNewSession={() => newSession()}
+        onSwitchSession={switchSession}
+        onRenameSession={renameSession}
+        onDeleteSession={deleteSession}
+        onImportSessions={handleImport}
       />
 
       <main className="chat-main">
-        {/* 用户信息卡片（Agent 模式下显示） */}
-        {extractedUser && <UserInfoCard user={extractedUser} />}
-
         {/* 聊天容器 */}
         <ChatContainer
           messages={messages}
           streamingResponse={streamingResponse}
           streamingThinking={streamingThinking}
+          streamingToolCalls={streamingToolCalls}
+          streamingToolDrafts={streamingToolDrafts}
+          branches={branches}
+          isLoading={isLoading}
+          // 错误已由 useChat 显示在输入框上方
+          onRegenerate={(messageId) => regenerate(messageId, getSendOptions()).catch(() => {})}
+          onEditMessage={(messageId, content) => editMessage(messageId, content, getSendOptions()).catch(() => {})}
+          onSwitchBranch={switchBranch}
+          onUpdateExtraction={updateExtraction}
         />
 
         {/* 输入框 */}
         <ChatInput
           onSendMessage={handleSendMessage}
+          onStop={stopGeneration}
+          onRetry={handleRetry}
           isLoading={isLoading}
           error={error}
+          supportsVision={supportsVision}
+          models={models.map(model => model.name)}
+          onCommand={handleCommand}
+          onApplySystemPrompt={handleSystemPromptChange}
         />
       </main>
 
@@ -109,6 +320,11 @@ function App() {
         isOpen={isSettingsOpen}
         onClose={() => setIsSettingsOpen(false)}
         onSave={handleSaveConfig}
+        onModelsChange={() => {
+          refreshModels();
+          recheckHealth();
+        }}
+        onKnowledgeChange={refreshKnowledgeBases}
       />
     </div>
   );
@@ -0,0 +1,37 @@
+import React from 'react';
+import type { Attachment } from '../types';
+import { formatBytes } from '../lib/ollamaApi';
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void; // 传入时显示删除按钮（输入框中）
+}
+
+/**
+ * 附件列表：图片显示缩略图，文档显示为标签
+ */
+export const AttachmentList: React.FC<AttachmentListProps> = ({ attachments, onRemove }) => (
+  <div className="attachment-list">
+    {attachments.map(attachment => (
+      <div
+        key={attachment.id}
+        className={`attachment ${attachment.kind}`}
+        title={`${attachment.name} (${formatBytes(attachment.size)})${attachment.truncated ? '，内容过长已截断' : ''}`}
+      >
+        {attachment.kind === 'image' ? (
+          <img src={attachment.dataUrl} alt={attachment.name} />
+        ) : (
+          <span className="attachment-chip">
+            📄 {attachment.name}
+            <small>{formatBytes(attachment.size)}</small>
+          </span>
+        )}
+        {onRemove && (
+          <button className="attachment-remove" onClick={() => onRemove(attachment.id)} title="移除">
+            ×
+          </button>
+        )}
+      </div>
+    ))}
+  </div>
+);
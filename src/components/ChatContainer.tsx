@@ -1,31 +1,164 @@
-import React from 'react';
-import { ChatMessage } from '../types';
+import React, { useState } from 'react';
+import { ChatMessage, type ToolCallDraft, type ToolCallResult } from '../types';
+import { MarkdownContent } from './MarkdownContent';
 import { ThinkingDisplay } from './ThinkingDisplay';
+import { ToolCallList } from './ToolCallList';
+import { AttachmentList } from './AttachmentList';
+import { CitationList } from './CitationList';
+import { StructuredDataCard } from './StructuredDataCard';
+import { formatDuration } from '../lib/metrics';
+
+// 回答的性能指标，鼠标悬停在消息上时显示
+const MessageMetricsInfo: React.FC<{ message: ChatMessage }> = ({ message }) => {
+  const { metrics, usage } = message;
+  if (!metrics) return null;
+  const parts = [
+    metrics.ttftMs !== undefined && `首字 ${formatDuration(metrics.ttftMs)}`,
+    `耗时 ${formatDuration(metrics.durationMs)}`,
+    usage && `${usage.inputTokens} → ${usage.outputTokens} tokens`,
+    metrics.tokensPerSecond !== undefined && `${metrics.tokensPerSecond} tok/s`,
+  ].filter(Boolean);
+  return (
+    <span
+      className="message-metrics"
+      title={usage ? `模型：${metrics.model ?? '未知'}\n提示词 ${usage.inputTokens} tokens，生成 ${usage.outputTokens} tokens` : `模型：${metrics.model ?? '未知'}`}
+    >
+      {parts.join(' · ')}
+    </span>
+  );
+};
 
 interface ChatContainerProps {
   messages: ChatMessage[];
+  branches: Record<string, { index: number; total: number }>;
+  isLoading: boolean;
   streamingResponse: string;
   streamingThinking: string;
+  streamingToolCalls: ToolCallResult[];
+  streamingToolDrafts: ToolCallDraft[];
+  onRegenerate: (messageId: string) => void;
+  onEditMessage: (messageId: string, content: string) => void;
+  onSwitchBranch: (messageId: string, offset: number) => void;
+  onUpdateExtraction: (messageId: string, data: Record<string, unknown>) => void;
 }
 
-export const ChatContainer: React.FC<ChatContainerProps> = ({ messages, streamingResponse, streamingThinking }) => {
+export const ChatContainer: React.FC<ChatContainerProps> = ({
+  messages,
+  branches,
+  isLoading,
+  streamingResponse,
+  streamingThinking,
+  streamingToolCalls,
+  streamingToolDrafts,
+  onRegenerate,
+  onEditMessage,
+  onSwitchBranch,
+  onUpdateExtraction,
+}) => {
   const messagesEndRef = React.useRef<HTMLDivElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingContent, setEditingContent] = useState('');
 
   React.useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, streamingResponse, streamingThinking]);
+  }, [messages, streamingResponse, streamingThinking, streamingToolCalls, streamingToolDrafts]);
+
+  const startEdit = (message: ChatMessage) => {
+    setEditingId(message.id);
+    setEditingContent(message.content);
+  };
+
+  const submitEdit = () => {
+    if (editingId && editingContent.trim()) {
+      onEditMessage(editingId, editingContent.trim());
+    }
+    setEditingId(null);
+  };
 
   const renderMessageContent = (message: ChatMessage) => {
-    // Assistant 消息可能包含思考过程
-    if (message.role === 'assistant' && message.thinking) {
+    // 编辑中的用户消息
+    if (message.id === editingId) {
+      return (
+        <div className="message-edit">
+          <textarea
+            value={editingContent}
+            onChange={(e) => setEditingContent(e.target.value)}
+            rows={3}
+            autoFocus
+          />
+          <div className="message-edit-actions">
+            <button onClick={() => setEditingId(null)}>取消</button>
+            <button className="primary" onClick={submitEdit} disabled={!editingContent.trim()}>
+              保存并发送
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    // Assistant 消息可能包含思考过程、工具调用和提取结果，正文按 Markdown 渲染
+    if (message.role === 'assistant') {
       return (
         <>
-          <ThinkingDisplay thinking={message.thinking} />
-          <p>{message.content}</p>
+          {message.thinking && <ThinkingDisplay thinking={message.thinking} />}
+          {message.toolCalls && <ToolCallList toolCalls={message.toolCalls} />}
+          {message.extraction && (
+            <StructuredDataCard
+              result={message.extraction}
+              onChange={isLoading ? undefined : (data) => onUpdateExtraction(message.id, data)}
+            />
+          )}
+          <MarkdownContent content={message.content} />
+          {message.citations && <CitationList citations={message.citations} />}
         </>
       );
     }
-    return <p>{message.content}</p>;
+    return (
+      <>
+        {message.attachments && message.attachments.length > 0 && (
+          <AttachmentList attachments={message.attachments} />
+        )}
+        {message.content && <p>{message.content}</p>}
+      </>
+    );
+  };
+
+  // 分支切换与消息操作
+  const renderMessageActions = (message: ChatMessage) => {
+    const branch = branches[message.id];
+    return (
+      <div className="message-actions">
+        {branch && branch.total > 1 && (
+          <span className="branch-switcher">
+            <button
+              disabled={isLoading || branch.index === 0}
+              onClick={() => onSwitchBranch(message.id, -1)}
+              title="上一个分支"
+            >
+              ‹
+            </button>
+            {branch.index + 1}/{branch.total}
+            <button
+              disabled={isLoading || branch.index === branch.total - 1}
+              onClick={() => onSwitchBranch(message.id, 1)}
+              title="下一个分支"
+            >
+              ›
+            </button>
+          </span>
+        )}
+        {message.role === 'user' && message.id !== editingId && (
+          <button disabled={isLoading} onClick={() => startEdit(message)} title="编辑并重新发送">
+            ✎ 编辑
+          </button>
+        )}
+        {message.role === 'assistant' && (
+          <button disabled={isLoading} onClick={() => onRegenerate(message.id)} title="重新生成回答">
+            🔄 重新生成
+          </button>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -46,7 +179,10 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({ messages, streamin
           </div>
           <span className="timestamp">
             {new Date(message.timestamp).toLocaleTimeString()}
+            {message.interrupted && <span className="interrupted-badge">⏹ 已中断</span>}
+            <MessageMetricsInfo message={message} />
           </span>
+          {renderMessageActions(message)}
         </div>
       ))}
 
@@ -60,12 +196,22 @@ export const ChatContainer: React.FC<ChatContainerProps> = ({ messages, streamin
         </div>
       )}
 
+      {/* 流式工具调用 */}
+      {(streamingToolCalls.length > 0 || streamingToolDrafts.length > 0) && (
+        <div className="message assistant streaming">
+          <div className="message-content">
+            <strong>助手:</strong>
+            <ToolCallList toolCalls={streamingToolCalls} drafts={streamingToolDrafts} />
+          </div>
+        </div>
+      )}
+
       {/* 流式内容 */}
       {streamingResponse && (
         <div className="message assistant streaming">
           <div className="message-content">
             <strong>助手:</strong>
-            <p>{streamingResponse}</p>
+            <MarkdownContent content={streamingResponse} isStreaming />
           </div>
         </div>
       )}
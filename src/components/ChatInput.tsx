@@ -1,37 +1,251 @@
-import React, { useState, FormEvent } from 'react';
+import React, { useMemo, useRef, useState, FormEvent } from 'react';
+import type { ChatError } from '../lib/errors';
+import { isSupportedFile, readAttachment } from '../lib/attachments';
+import { extractVariables, loadPrompts } from '../lib/promptLibrary';
+import { getPaletteItems, parseSlashCommand, type PaletteItem, type SlashCommand, type SlashCommandName } from '../lib/slashCommands';
+import type { Attachment, PromptTemplate } from '../types';
+import { AttachmentList } from './AttachmentList';
+import { CommandPalette, TemplateForm } from './CommandPalette';
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, attachments: Attachment[]) => void;
+  onStop: () => void;
+  onRetry: () => void;
   isLoading: boolean;
-  error: string | null;
+  error: ChatError | null;
+  supportsVision?: boolean; // 当前模型是否支持图片（未知时不提示）
+  models: string[]; // 已安装的模型，用于 /model 命令的补全
+  onCommand: (name: SlashCommandName, args: string) => void;
+  onApplySystemPrompt: (content: string) => void;
 }
 
-export const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading, error }) => {
+export const ChatInput: React.FC<ChatInputProps> = ({
+  onSendMessage,
+  onStop,
+  onRetry,
+  isLoading,
+  error,
+  supportsVision,
+  models,
+  onCommand,
+  onApplySystemPrompt,
+}) => {
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isPaletteClosed, setIsPaletteClosed] = useState(false);
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // 输入 / 时重新读取提示词库，侧边栏中的修改立即可用
+  const isCommand = input.startsWith('/');
+  const prompts = useMemo(() => (isCommand ? loadPrompts() : []), [isCommand]);
+  const paletteItems = isPaletteClosed || isLoading ? [] : getPaletteItems(input, prompts, models);
+  const active = Math.min(activeIndex, paletteItems.length - 1);
+
+  const canSend = (input.trim() || attachments.length > 0) && !isLoading && !isReading;
+  const hasImage = attachments.some(attachment => attachment.kind === 'image');
+
+  // 读取拖入、粘贴或选择的文件
+  const addFiles = async (files: File[]) => {
+    const supported = files.filter(isSupportedFile);
+    const unsupported = files.filter(file => !isSupportedFile(file));
+    if (supported.length === 0 && unsupported.length === 0) return;
+
+    setIsReading(true);
+    const errors = unsupported.map(file => `不支持的文件类型: ${file.name}`);
+    for (const file of supported) {
+      try {
+        const attachment = await readAttachment(file);
+        setAttachments(prev => [...prev, attachment]);
+      } catch (err) {
+        console.error('❌ [Attachment] 读取文件失败:', err);
+        errors.push(err instanceof Error ? err.message : `读取失败: ${file.name}`);
+      }
+    }
+    setAttachError(errors.length > 0 ? errors.join('；') : null);
+    setIsReading(false);
+  };
+
+  const changeInput = (value: string) => {
+    setInput(value);
+    setActiveIndex(0);
+    setIsPaletteClosed(false);
+  };
+
+  // 运行内置命令，需要参数但未填写时补全命令等待输入
+  const runCommand = (command: SlashCommand, args: string) => {
+    if (command.argument && !args) {
+      changeInput(`/${command.name} `);
+      return;
+    }
+    onCommand(command.name, args);
+    changeInput('');
+  };
+
+  const handleSelect = (item: PaletteItem) => {
+    if (item.type === 'command') {
+      runCommand(item.command, item.args ?? '');
+    } else if (item.prompt.kind === 'system') {
+      onApplySystemPrompt(item.prompt.content);
+      changeInput('');
+    } else if (extractVariables(item.prompt.content).length > 0) {
+      setTemplate(item.prompt);
+      changeInput('');
+    } else {
+      changeInput(item.prompt.content);
+    }
+    textareaRef.current?.focus();
+  };
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
-    if (input.trim() && !isLoading) {
-      onSendMessage(input.trim());
+    const parsed = attachments.length === 0 ? parseSlashCommand(input.trim()) : null;
+    if (parsed && !isLoading) {
+      runCommand(parsed.command, parsed.args);
+    } else if (canSend) {
+      onSendMessage(input.trim(), attachments);
       setInput('');
+      setAttachments([]);
+      setAttachError(null);
+    }
+  };
+
+  // Enter 发送，Shift + Enter 换行；命令面板打开时方向键选择，Enter / Tab 确认，Esc 关闭
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (paletteItems.length > 0 && !e.nativeEvent.isComposing) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex((active + step + paletteItems.length) % paletteItems.length);
+        return;
+      }
+      if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+        e.preventDefault();
+        handleSelect(paletteItems[active]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        setIsPaletteClosed(true);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      handleSubmit(e);
+    }
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length > 0) {
+      e.preventDefault();
+      addFiles(files);
     }
   };
 
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
   return (
-    <div className="chat-input-container">
-      {error && <div className="error-message">{error}</div>}
+    <div
+      className={`chat-input-container ${isDragging ? 'dragging' : ''}`}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      {error && (
+        <div className={`error-message ${error.kind}`}>
+          <div className="error-text">
+            <strong>{error.message}</strong>
+            <span>{error.hint}</span>
+          </div>
+          <button type="button" onClick={onRetry} disabled={isLoading}>重试</button>
+        </div>
+      )}
+      {attachments.length > 0 && (
+        <AttachmentList
+          attachments={attachments}
+          onRemove={(id) => setAttachments(prev => prev.filter(attachment => attachment.id !== id))}
+        />
+      )}
+      {hasImage && supportsVision === false && (
+        <div className="attachment-warning">当前模型不支持图片输入，请切换到视觉模型（如 qwen2.5vl、llava）</div>
+      )}
+      {attachError && <div className="attachment-warning">{attachError}</div>}
+      {template && (
+        <TemplateForm
+          key={template.id}
+          prompt={template}
+          onSubmit={(content) => {
+            setTemplate(null);
+            changeInput(content);
+            textareaRef.current?.focus();
+          }}
+          onCancel={() => {
+            setTemplate(null);
+            textareaRef.current?.focus();
+          }}
+        />
+      )}
+      {paletteItems.length > 0 && (
+        <CommandPalette
+          items={paletteItems}
+          activeIndex={active}
+          onSelect={handleSelect}
+          onHover={setActiveIndex}
+        />
+      )}
       <form onSubmit={handleSubmit}>
+        <button
+          type="button"
+          className="btn-attach"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading || isReading}
+          title="添加图片或文件（也可以拖拽或粘贴）"
+        >
+          {isReading ? '…' : '📎'}
+        </button>
         <input
-          type="text"
+          ref={fileInputRef}
+          type="file"
+          multiple
+          hidden
+          accept="image/*,.pdf,.txt,.md,.csv,.json,text/*"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+        <textarea
+          ref={textareaRef}
           value={input}
-          onChange={(e) => setInput(e.target.value)}
-          placeholder="输入你的消息..."
+          onChange={(e) => changeInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          placeholder="输入你的消息，输入 / 使用命令和模板，可拖拽或粘贴图片和文件..."
           disabled={isLoading}
           maxLength={5000}
+          rows={Math.min(6, input.split('\n').length)}
         />
-        <button type="submit" disabled={isLoading || !input.trim()}>
-          {isLoading ? '发送中...' : '发送'}
-        </button>
+        {isLoading ? (
+          <button type="button" className="btn-stop" onClick={onStop}>
+            停止
+          </button>
+        ) : (
+          <button type="submit" disabled={!canSend}>
+            发送
+          </button>
+        )}
       </form>
     </div>
   );
@@ -0,0 +1,40 @@
+import { useState, type FC } from 'react';
+import type { Citation } from '../types';
+
+interface CitationListProps {
+  citations: Citation[];
+}
+
+/**
+ * 引用来源：展示回答参考的知识库片段，点击编号查看原文
+ */
+export const CitationList: FC<CitationListProps> = ({ citations }) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const active = citations.find(citation => citation.index === activeIndex);
+
+  return (
+    <div className="citations">
+      <div className="citation-list">
+        <span>📚 来源</span>
+        {citations.map(citation => (
+          <button
+            key={citation.index}
+            className={`citation ${citation.index === activeIndex ? 'active' : ''}`}
+            onClick={() => setActiveIndex(citation.index === activeIndex ? null : citation.index)}
+            title={`${citation.knowledgeBaseName} · 相似度 ${citation.score.toFixed(2)}`}
+          >
+            [{citation.index}] {citation.documentName}
+          </button>
+        ))}
+      </div>
+      {active && (
+        <blockquote className="citation-excerpt">
+          <small>
+            {active.knowledgeBaseName} / {active.documentName} · 第 {active.chunkIndex + 1} 段
+          </small>
+          <p>{active.text}</p>
+        </blockquote>
+      )}
+    </div>
+  );
+};
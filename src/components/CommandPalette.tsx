@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import type { PromptTemplate } from '../types';
+import type { PaletteItem } from '../lib/slashCommands';
+import { extractVariables, fillTemplate } from '../lib/promptLibrary';
+
+interface CommandPaletteProps {
+  items: PaletteItem[];
+  activeIndex: number;
+  onSelect: (item: PaletteItem) => void;
+  onHover: (index: number) => void;
+}
+
+/**
+ * 斜杠命令面板：显示在输入框上方，键盘选择由输入框处理
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ items, activeIndex, onSelect, onHover }) => (
+  <div className="command-palette">
+    <ul role="listbox">
+      {items.map((item, index) => (
+        <li
+          key={item.key}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={index === activeIndex ? 'active' : ''}
+          // 使用 mousedown 避免输入框失去焦点
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(item);
+          }}
+          onMouseEnter={() => onHover(index)}
+        >
+          <strong>{item.type === 'prompt' && item.prompt.kind === 'system' ? '⚙️ ' : ''}{item.label}</strong>
+          <span>{item.description}</span>
+        </li>
+      ))}
+    </ul>
+    <p className="hint">↑↓ 选择 · Enter / Tab 确认 · Esc 关闭</p>
+  </div>
+);
+
+/**
+ * 模板变量表单：填写 {{变量}} 后把模板内容插入输入框
+ */
+export const TemplateForm: React.FC<{
+  prompt: PromptTemplate;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+}> = ({ prompt, onSubmit, onCancel }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const variables = extractVariables(prompt.content);
+
+  return (
+    <form
+      className="template-form"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit(fillTemplate(prompt.content, values));
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onCancel();
+      }}
+    >
+      <h4>📝 {prompt.name}</h4>
+      {variables.map((name, index) => (
+        <label key={name}>
+          <span>{name}</span>
+          <textarea
+            value={values[name] ?? ''}
+            onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+            autoFocus={index === 0}
+            rows={1}
+          />
+        </label>
+      ))}
+      <div className="template-form-actions">
+        <button type="button" onClick={onCancel}>取消</button>
+        <button type="submit">插入</button>
+      </div>
+    </form>
+  );
+};
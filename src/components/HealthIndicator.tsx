@@ -0,0 +1,39 @@
+import React from 'react';
+import type { HealthState, HealthStatus } from '../lib/health';
+
+interface HealthIndicatorProps {
+  health: HealthStatus;
+  model: string;
+  onRecheck: () => void;
+}
+
+// 各状态的显示文本与说明
+const STATE_LABELS: Record<HealthState, { label: string; description: (model: string) => string }> = {
+  checking: { label: '检查中', description: () => '正在检查模型服务连接' },
+  ok: { label: '已连接', description: model => `服务运行正常，模型 ${model} 可用` },
+  model_missing: { label: '模型未安装', description: model => `服务已连接，但未找到模型 ${model}` },
+  unreachable: { label: '未连接', description: () => '无法连接模型服务，请确认服务已启动且地址正确' },
+  cors: { label: '跨域被拒绝', description: () => '服务在运行但拒绝了跨域请求（Ollama 请设置 OLLAMA_ORIGINS）' },
+  unauthorized: { label: 'Key 无效', description: () => '服务拒绝了请求，请检查 API Key' },
+};
+
+/**
+ * 顶部连接状态指示：点击立即重新检查
+ */
+export const HealthIndicator: React.FC<HealthIndicatorProps> = ({ health, model, onRecheck }) => {
+  const { label, description } = STATE_LABELS[health.state];
+  const title = [
+    description(model),
+    health.version && `版本 ${health.version}`,
+    health.checkedAt > 0 && `检查于 ${new Date(health.checkedAt).toLocaleTimeString()}`,
+    '点击重新检查',
+  ].filter(Boolean).join('\n');
+
+  return (
+    <button className={`health-indicator ${health.state}`} onClick={onRecheck} title={title}>
+      <span className="health-dot" />
+      {label}
+      {health.state === 'ok' && health.version && <small>v{health.version}</small>}
+    </button>
+  );
+};
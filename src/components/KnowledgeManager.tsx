@@ -0,0 +1,189 @@
+import React, { useRef, useState } from 'react';
+import { useKnowledgeBases } from '../hooks/useKnowledgeBases';
+import { useModels } from '../hooks/useModels';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  addDocument,
+  createKnowledgeBase,
+  deleteKnowledgeBase,
+  removeDocument,
+} from '../lib/knowledge';
+import { formatBytes } from '../lib/ollamaApi';
+import type { KnowledgeBase } from '../types';
+
+interface KnowledgeManagerProps {
+  baseUrl: string; // 生成向量使用的 Ollama 地址
+  onKnowledgeChange?: () => void;
+}
+
+// 正在向量化的文档进度
+interface UploadProgress {
+  knowledgeBaseId: string;
+  fileName: string;
+  done: number;
+  total: number;
+}
+
+/**
+ * 知识库管理：新建知识库、上传和删除文档
+ */
+export const KnowledgeManager: React.FC<KnowledgeManagerProps> = ({ baseUrl, onKnowledgeChange }) => {
+  const { knowledgeBases, refresh } = useKnowledgeBases();
+  const { models } = useModels({ provider: 'ollama', baseUrl });
+  const [name, setName] = useState('');
+  const [embeddingModel, setEmbeddingModel] = useState(DEFAULT_EMBEDDING_MODEL);
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetRef = useRef<KnowledgeBase | null>(null);
+
+  // 优先列出带有向量能力的模型
+  const embeddingModels = models.filter(model =>
+    model.capabilities ? model.capabilities.includes('embedding') : /embed/i.test(model.name)
+  );
+
+  const reload = () => {
+    refresh();
+    onKnowledgeChange?.();
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim() || !embeddingModel.trim()) return;
+    try {
+      await createKnowledgeBase(name.trim(), embeddingModel.trim(), baseUrl);
+      setName('');
+      reload();
+    } catch (err) {
+      console.error('❌ [Knowledge] 新建知识库失败:', err);
+      setError(err instanceof Error ? err.message : '新建知识库失败');
+    }
+  };
+
+  const handleUpload = async (files: File[]) => {
+    let knowledgeBase = uploadTargetRef.current;
+    if (!knowledgeBase || files.length === 0) return;
+
+    setError(null);
+    const errors: string[] = [];
+    for (const file of files) {
+      try {
+        const target: KnowledgeBase = knowledgeBase;
+        knowledgeBase = await addDocument(target, file, (done, total) =>
+          setProgress({ knowledgeBaseId: target.id, fileName: file.name, done, total })
+        );
+      } catch (err) {
+        console.error('❌ [Knowledge] 添加文档失败:', err);
+        errors.push(`${file.name}: ${err instanceof Error ? err.message : '添加失败'}`);
+      }
+    }
+    setProgress(null);
+    if (errors.length > 0) {
+      setError(`${errors.join('；')}（请确认已拉取嵌入模型 ${knowledgeBase.embeddingModel}）`);
+    }
+    reload();
+  };
+
+  const handleDeleteKnowledgeBase = async (knowledgeBase: KnowledgeBase) => {
+    if (!confirm(`确定删除知识库「${knowledgeBase.name}」及其全部文档吗？`)) return;
+    await deleteKnowledgeBase(knowledgeBase.id);
+    reload();
+  };
+
+  const handleRemoveDocument = async (knowledgeBase: KnowledgeBase, documentId: string) => {
+    await removeDocument(knowledgeBase, documentId);
+    reload();
+  };
+
+  return (
+    <div className="knowledge-manager">
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        hidden
+        accept=".md,.markdown,.txt,.pdf,text/*,application/pdf"
+        onChange={(e) => {
+          handleUpload(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+
+      {knowledgeBases.length === 0 && <p className="settings-hint">还没有知识库，新建后上传 Markdown、TXT 或 PDF 文档。</p>}
+
+      <ul className="knowledge-list">
+        {knowledgeBases.map(knowledgeBase => (
+          <li key={knowledgeBase.id} className="knowledge-item">
+            <div className="knowledge-item-header">
+              <div>
+                <strong>{knowledgeBase.name}</strong>
+                <span className="model-meta">
+                  {knowledgeBase.embeddingModel} · {knowledgeBase.documents.length} 个文档
+                </span>
+              </div>
+              <div className="model-item-actions">
+                <button
+                  onClick={() => {
+                    uploadTargetRef.current = knowledgeBase;
+                    fileInputRef.current?.click();
+                  }}
+                  disabled={!!progress}
+                >
+                  上传文档
+                </button>
+                <button className="danger" onClick={() => handleDeleteKnowledgeBase(knowledgeBase)} disabled={!!progress} title="删除知识库">
+                  🗑
+                </button>
+              </div>
+            </div>
+            {knowledgeBase.documents.length > 0 && (
+              <ul className="knowledge-documents">
+                {knowledgeBase.documents.map(document => (
+                  <li key={document.id}>
+                    <span>📄 {document.name}</span>
+                    <small>{formatBytes(document.size)} · {document.chunkCount} 个片段</small>
+                    <button onClick={() => handleRemoveDocument(knowledgeBase, document.id)} disabled={!!progress} title="移除文档">
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {progress?.knowledgeBaseId === knowledgeBase.id && (
+              <div className="model-pull-progress">
+                <div className="model-pull-bar">
+                  <div style={{ width: `${progress.total ? Math.round((progress.done / progress.total) * 100) : 0}%` }} />
+                </div>
+                <small>正在向量化 {progress.fileName} · {progress.done} / {progress.total}</small>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="knowledge-create">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          placeholder="知识库名称"
+        />
+        <input
+          type="text"
+          list="embedding-models"
+          value={embeddingModel}
+          onChange={(e) => setEmbeddingModel(e.target.value)}
+          placeholder="嵌入模型"
+          title="用于生成向量的 Ollama 嵌入模型，创建后不可更改"
+        />
+        <datalist id="embedding-models">
+          {embeddingModels.map(model => (
+            <option key={model.name} value={model.name} />
+          ))}
+        </datalist>
+        <button onClick={handleCreate} disabled={!name.trim() || !embeddingModel.trim()}>新建</button>
+      </div>
+      {error && <div className="model-manager-error">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import { memo, useRef, useState, type FC, type ReactNode } from 'react';
+import ReactMarkdown, { type Components, type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github.css';
+import { MARKDOWN_SANITIZE_SCHEMA, closeOpenBlocks, splitMarkdownBlocks } from '../lib/markdown';
+
+interface MarkdownContentProps {
+  content: string;
+  isStreaming?: boolean;
+}
+
+const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+const rehypePlugins: Options['rehypePlugins'] = [
+  [rehypeSanitize, MARKDOWN_SANITIZE_SCHEMA],
+  rehypeKatex,
+  [rehypeHighlight, { detect: true }],
+];
+
+/**
+ * 代码块：显示语言并提供复制按钮
+ */
+const CodeBlock: FC<{ children?: ReactNode }> = ({ children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  // 从 code 元素的 class 中取出语言名称
+  const codeElement = Array.isArray(children) ? children[0] : children;
+  const className: string = (codeElement as { props?: { className?: string } })?.props?.className ?? '';
+  const language = className.match(/language-([\w-]+)/)?.[1];
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('❌ [Code Block] 复制失败:', error);
+    }
+  };
+
+  return (
+    <div className="code-block">
+      <div className="code-block-header">
+        <span>{language || 'text'}</span>
+        <button onClick={handleCopy}>{copied ? '✓ 已复制' : '复制'}</button>
+      </div>
+      <pre ref={preRef}>{children}</pre>
+    </div>
+  );
+};
+
+const components: Components = {
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  // 外部链接在新窗口打开
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+};
+
+/**
+ * 单个 Markdown 块，内容不变时不重新渲染
+ */
+const MarkdownBlock = memo<{ markdown: string }>(({ markdown }) => (
+  <ReactMarkdown
+    remarkPlugins={remarkPlugins}
+    rehypePlugins={rehypePlugins}
+    components={components}
+  >
+    {markdown}
+  </ReactMarkdown>
+));
+
+/**
+ * Markdown 渲染：GFM 表格、KaTeX 公式、代码高亮，内容经过 HTML 清洗
+ * 流式输出时按块渲染并补全未闭合的代码块，已完成的块不会重复渲染；输出完成后整体渲染
+ */
+export const MarkdownContent: FC<MarkdownContentProps> = ({ content, isStreaming = false }) => {
+  if (!isStreaming) {
+    return (
+      <div className="markdown-body">
+        <MarkdownBlock markdown={content} />
+      </div>
+    );
+  }
+
+  const blocks = splitMarkdownBlocks(content);
+
+  return (
+    <div className="markdown-body">
+      {blocks.map((block, index) => (
+        <MarkdownBlock
+          key={index}
+          markdown={index === blocks.length - 1 ? closeOpenBlocks(block) : block}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useRef, useState } from 'react';
+import { useModels } from '../hooks/useModels';
+import { deleteModel, formatBytes, pullModel, type ModelCapability, type PullProgress } from '../lib/ollamaApi';
+
+interface ModelManagerProps {
+  baseUrl: string;
+  selectedModel: string;
+  onSelect: (model: string) => void;
+  onModelsChange?: () => void;
+}
+
+// 能力标签显示文本
+const CAPABILITY_LABELS: Record<ModelCapability, string> = {
+  completion: '对话',
+  tools: '🔧 工具',
+  thinking: '💭 思考',
+  vision: '👁️ 视觉',
+  embedding: '向量',
+  insert: '补全',
+};
+
+/**
+ * 模型管理：查看已安装模型、拉取新模型、删除模型
+ */
+export const ModelManager: React.FC<ModelManagerProps> = ({ baseUrl, selectedModel, onSelect, onModelsChange }) => {
+  const { models, isLoading, error, refresh } = useModels({ provider: 'ollama', baseUrl });
+  const [pullName, setPullName] = useState('');
+  const [pullProgress, setPullProgress] = useState<PullProgress | null>(null);
+  const [pullError, setPullError] = useState<string | null>(null);
+  const pullControllerRef = useRef<AbortController | null>(null);
+
+  const reload = () => {
+    refresh();
+    onModelsChange?.();
+  };
+
+  const handlePull = async () => {
+    const name = pullName.trim();
+    if (!name) return;
+
+    const controller = new AbortController();
+    pullControllerRef.current = controller;
+    setPullError(null);
+    setPullProgress({ status: '准备拉取' });
+
+    try {
+      await pullModel(baseUrl, name, setPullProgress, controller.signal);
+      setPullName('');
+      reload();
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('❌ [Models] 拉取模型失败:', err);
+        setPullError(err instanceof Error ? err.message : '拉取模型失败');
+      }
+    } finally {
+      pullControllerRef.current = null;
+      setPullProgress(null);
+    }
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`确定删除模型「${name}」吗？删除后需要重新拉取。`)) return;
+    try {
+      await deleteModel(baseUrl, name);
+      reload();
+    } catch (err) {
+      console.error('❌ [Models] 删除模型失败:', err);
+      alert(err instanceof Error ? err.message : '删除模型失败');
+    }
+  };
+
+  const percent = pullProgress?.total
+    ? Math.round(((pullProgress.completed ?? 0) / pullProgress.total) * 100)
+    : null;
+
+  return (
+    <div className="model-manager">
+      <div className="model-manager-header">
+        <span>已安装模型 ({models.length})</span>
+        <button onClick={refresh} disabled={isLoading}>{isLoading ? '加载中...' : '刷新'}</button>
+      </div>
+
+      {error && <div className="model-manager-error">无法获取模型列表：{error}</div>}
+
+      <ul className="model-list">
+        {models.map(model => (
+          <li key={model.name} className={`model-item ${model.name === selectedModel ? 'active' : ''}`}>
+            <div className="model-item-main">
+              <strong>{model.name}</strong>
+              <span className="model-meta">
+                {formatBytes(model.size ?? 0)}
+                {model.family && ` · ${model.family}`}
+                {model.parameterSize && ` · ${model.parameterSize}`}
+                {model.quantization && ` · ${model.quantization}`}
+                {model.contextLength && ` · 上下文 ${model.contextLength.toLocaleString()}`}
+              </span>
+              {model.capabilities && (
+                <span className="model-capabilities">
+                  {model.capabilities.map(capability => (
+                    <span key={capability} className="model-capability">
+                      {CAPABILITY_LABELS[capability] ?? capability}
+                    </span>
+                  ))}
+                </span>
+              )}
+            </div>
+            <div className="model-item-actions">
+              {model.name === selectedModel ? (
+                <span className="model-current">当前</span>
+              ) : (
+                <button onClick={() => onSelect(model.name)}>使用</button>
+              )}
+              <button className="danger" onClick={() => handleDelete(model.name)} title="删除模型">🗑</button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="model-pull">
+        <input
+          type="text"
+          value={pullName}
+          onChange={(e) => setPullName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && !pullProgress && handlePull()}
+          placeholder="输入模型名称拉取，如 qwen3:1.7b"
+          disabled={!!pullProgress}
+        />
+        {pullProgress ? (
+          <button onClick={() => pullControllerRef.current?.abort()}>取消</button>
+        ) : (
+          <button onClick={handlePull} disabled={!pullName.trim()}>拉取</button>
+        )}
+      </div>
+
+      {pullProgress && (
+        <div className="model-pull-progress">
+          <div className="model-pull-bar">
+            <div style={{ width: `${percent ?? 0}%` }} />
+          </div>
+          <small>
+            {pullProgress.status}
+            {percent !== null && ` · ${formatBytes(pullProgress.completed ?? 0)} / ${formatBytes(pullProgress.total!)} (${percent}%)`}
+          </small>
+        </div>
+      )}
+      {pullError && <div className="model-manager-error">拉取失败：{pullError}</div>}
+    </div>
+  );
+};
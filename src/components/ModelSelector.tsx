@@ -0,0 +1,36 @@
+import React from 'react';
+import { isSameModel, type OllamaModel } from '../lib/ollamaApi';
+
+interface ModelSelectorProps {
+  models: OllamaModel[];
+  value: string;
+  disabled?: boolean;
+  onChange: (model: string) => void;
+}
+
+/**
+ * 顶部模型切换：只影响当前会话使用的模型
+ */
+export const ModelSelector: React.FC<ModelSelectorProps> = ({ models, value, disabled, onChange }) => {
+  // 会话保存的模型可能已被删除，仍然保留在选项中以便看出当前状态
+  const installed = models.find(model => isSameModel(model.name, value));
+
+  return (
+    <select
+      className="model-selector"
+      value={installed?.name ?? value}
+      disabled={disabled}
+      onChange={(e) => onChange(e.target.value)}
+      title="当前会话使用的模型"
+    >
+      {!installed && <option value={value}>{value}（未安装）</option>}
+      {models.map(model => (
+        <option key={model.name} value={model.name}>
+          {model.name}
+          {model.capabilities?.includes('vision') ? ' 👁️' : ''}
+          {model.capabilities?.includes('tools') ? ' 🔧' : ''}
+        </option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { SamplingOptions } from '../types';
+
+type SamplingField = keyof SamplingOptions;
+
+interface SamplingFieldsProps {
+  values: Partial<SamplingOptions>;
+  defaults?: Partial<SamplingOptions>; // 未填写时实际使用的值，作为占位提示
+  onChange: (field: SamplingField, value: SamplingOptions[SamplingField] | undefined) => void;
+}
+
+// 数值参数
+const NUMBER_FIELDS: Array<{
+  field: Exclude<SamplingField, 'stop' | 'keepAlive'>;
+  label: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  integer?: boolean;
+  title: string;
+}> = [
+  { field: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, title: '值越低越精确，值越高越随机' },
+  { field: 'maxTokens', label: 'Max Tokens', min: 1, step: 1, integer: true, title: '单次回答最多生成的 token 数' },
+  { field: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, title: '只从累计概率达到该值的候选词中采样' },
+  { field: 'topK', label: 'Top K', min: 1, step: 1, integer: true, title: '只从概率最高的 K 个候选词中采样' },
+  { field: 'repeatPenalty', label: 'Repeat Penalty', min: 0, max: 2, step: 0.05, title: '大于 1 时降低重复内容的概率' },
+  { field: 'seed', label: 'Seed', step: 1, integer: true, title: '固定随机种子，相同输入得到相同输出' },
+  { field: 'numCtx', label: 'num_ctx', min: 512, step: 512, integer: true, title: 'Ollama 加载模型时使用的上下文长度' },
+];
+
+const formatDefault = (value: unknown) => (value === undefined ? '默认' : String(value));
+
+/**
+ * 生成参数输入项：留空表示使用默认值
+ */
+export const SamplingFields: React.FC<SamplingFieldsProps> = ({ values, defaults = {}, onChange }) => {
+  const handleNumber = (field: SamplingField, raw: string, integer?: boolean) => {
+    const value = integer ? parseInt(raw) : parseFloat(raw);
+    onChange(field, Number.isNaN(value) ? undefined : value);
+  };
+
+  return (
+    <div className="sampling-fields">
+      {NUMBER_FIELDS.map(({ field, label, min, max, step, integer, title }) => (
+        <label key={field} className="sampling-field" title={title}>
+          <span>{label}</span>
+          <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={values[field] ?? ''}
+            placeholder={formatDefault(defaults[field])}
+            onChange={(e) => handleNumber(field, e.target.value, integer)}
+          />
+        </label>
+      ))}
+      <label className="sampling-field" title="模型在内存中保留的时间，如 5m、1h，-1 表示一直保留">
+        <span>keep_alive</span>
+        <input
+          type="text"
+          value={values.keepAlive ?? ''}
+          placeholder={formatDefault(defaults.keepAlive)}
+          onChange={(e) => onChange('keepAlive', e.target.value.trim() || undefined)}
+        />
+      </label>
+      <label className="sampling-field wide" title="遇到这些文本时停止生成，每行一个">
+        <span>停止序列</span>
+        <textarea
+          rows={2}
+          value={values.stop?.join('\n') ?? ''}
+          placeholder={defaults.stop?.join('\n') || '每行一个'}
+          onChange={(e) => onChange('stop', e.target.value ? e.target.value.split('\n') : undefined)}
+        />
+      </label>
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import { useRef, useState, type FC, type KeyboardEvent } from 'react';
+import type { ChatSession } from '../types';
+
+interface SessionListProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
+  onNewSession: () => void;
+  onSwitchSession: (id: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+  onImportSessions: (file: File) => void;
+}
+
+/**
+ * 会话列表：新建、导入、搜索、切换、重命名、删除会话
+ */
+export const SessionList: FC<SessionListProps> = ({
+  sessions,
+  activeSessionId,
+  onNewSession,
+  onSwitchSession,
+  onRenameSession,
+  onDeleteSession,
+  onImportSessions,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  // 按标题和消息内容搜索，最近更新的排在前面
+  const keyword = query.trim().toLowerCase();
+  const visibleSessions = sessions
+    .filter(session =>
+      !keyword ||
+      session.title.toLowerCase().includes(keyword) ||
+      session.messages.some(message => message.content.toLowerCase().includes(keyword))
+    )
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+  const startRename = (session: ChatSession) => {
+    setEditingId(session.id);
+    setEditingTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRenameSession(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitRename();
+    if (e.key === 'Escape') setEditingId(null);
+  };
+
+  const handleDelete = (session: ChatSession) => {
+    if (window.confirm(`确定删除会话「${session.title}」吗？删除后无法恢复。`)) {
+      onDeleteSession(session.id);
+    }
+  };
+
+  return (
+    <div className="sidebar-section session-list">
+      <div className="session-list-header">
+        <h3>会话</h3>
+        <div className="session-list-buttons">
+          <button
+            className="btn-new-session"
+            onClick={() => fileInputRef.current?.click()}
+            title="导入本应用、ChatGPT 或 Open WebUI 导出的 JSON 文件"
+          >
+            导入
+          </button>
+          <button className="btn-new-session" onClick={onNewSession}>+ 新对话</button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportSessions(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <input
+        type="search"
+        className="session-search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="搜索会话..."
+      />
+      <ul>
+        {visibleSessions.map(session => (
+          <li
+            key={session.id}
+            className={`session-item ${session.id === activeSessionId ? 'active' : ''}`}
+            onClick={() => onSwitchSession(session.id)}
+          >
+            {editingId === session.id ? (
+              <input
+                className="session-rename"
+                value={editingTitle}
+                autoFocus
+                onChange={(e) => setEditingTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={handleRenameKeyDown}
+                onClick={(e) => e.stopPropagation()}
+              />
+            ) : (
+              <span className="session-title" title={session.title} onDoubleClick={() => startRename(session)}>
+                {session.title}
+              </span>
+            )}
+            <span className="session-actions">
+              <button
+                title="重命名"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  startRename(session);
+                }}
+              >
+                ✎
+              </button>
+              <button
+                title="删除"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(session);
+                }}
+              >
+                🗑
+              </button>
+            </span>
+          </li>
+        ))}
+        {visibleSessions.length === 0 && <li className="hint">没有匹配的会话</li>}
+      </ul>
+    </div>
+  );
+};
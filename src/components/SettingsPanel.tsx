@@ -1,28 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import type { OllamaConfig } from '../types';
+import type { OllamaConfig, ProviderProfile, ProviderType, SamplingOptions } from '../types';
 import { OLLAMA_CONFIG } from '../types';
+import { PROVIDERS } from '../lib/providers';
+import { applyProfile, createProfile, loadProfiles, saveProfiles } from '../lib/providerProfiles';
+import { ModelManager } from './ModelManager';
+import { KnowledgeManager } from './KnowledgeManager';
+import { SamplingFields } from './SamplingFields';
+import { ToolSecretsManager } from './ToolSecretsManager';
 
 interface SettingsPanelProps {
   isOpen: boolean;
   onClose: () => void;
   onSave?: (config: OllamaConfig) => void;
+  onModelsChange?: () => void;
+  onKnowledgeChange?: () => void;
 }
 
 /**
  * 设置面板：可以查看和修改配置
  * 修改后会更新到 localStorage，页面刷新后生效
  */
-export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave }) => {
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  onModelsChange,
+  onKnowledgeChange,
+}) => {
   const [config, setConfig] = useState<OllamaConfig>(OLLAMA_CONFIG);
   const [hasChanges, setHasChanges] = useState(false);
   const [saveSuccess, setSaveSuccess] = useState(false);
+  const [profiles, setProfiles] = useState<ProviderProfile[]>(loadProfiles);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
 
   useEffect(() => {
     // 从 localStorage 读取保存的配置
     const savedConfig = localStorage.getItem('ollamaConfig');
     if (savedConfig) {
       try {
-        const parsedConfig = JSON.parse(savedConfig) as OllamaConfig;
+        const parsedConfig = { ...OLLAMA_CONFIG, ...JSON.parse(savedConfig) } as OllamaConfig;
         // 使用 setTimeout 避免在 effect 中直接调用 setState
         setTimeout(() => setConfig(parsedConfig), 0);
       } catch {
@@ -39,6 +55,54 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
     });
   };
 
+  // 生成参数：温度和最大长度清空时恢复为环境变量中的默认值
+  const handleSamplingChange = (field: keyof SamplingOptions, value: SamplingOptions[keyof SamplingOptions] | undefined) => {
+    const fallback = field === 'temperature' || field === 'maxTokens' ? OLLAMA_CONFIG[field] : undefined;
+    setConfig(prev => ({ ...prev, [field]: value ?? fallback }));
+    setHasChanges(true);
+  };
+
+  // 切换服务类型时，如果地址仍是上一类服务的默认地址，则换成新类型的默认地址
+  const handleProviderChange = (provider: ProviderType) => {
+    setConfig(prev => {
+      const isDefaultUrl = !prev.baseUrl || prev.baseUrl === PROVIDERS[prev.provider].defaultBaseUrl;
+      return {
+        ...prev,
+        provider,
+        baseUrl: isDefaultUrl ? PROVIDERS[provider].defaultBaseUrl : prev.baseUrl,
+      };
+    });
+    setHasChanges(true);
+  };
+
+  const handleSelectProfile = (id: string) => {
+    setSelectedProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setConfig(prev => applyProfile(prev, profile));
+      setHasChanges(true);
+    }
+  };
+
+  const handleSaveProfile = () => {
+    const name = prompt('配置档名称', `${PROVIDERS[config.provider].label} - ${config.model}`)?.trim();
+    if (!name) return;
+    const profile = createProfile(name, config);
+    const updated = [...profiles, profile];
+    setProfiles(updated);
+    saveProfiles(updated);
+    setSelectedProfileId(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    const profile = profiles.find(p => p.id === selectedProfileId);
+    if (!profile || !confirm(`确定删除配置档「${profile.name}」吗？`)) return;
+    const updated = profiles.filter(p => p.id !== profile.id);
+    setProfiles(updated);
+    saveProfiles(updated);
+    setSelectedProfileId('');
+  };
+
   const handleSave = () => {
     // 保存到 localStorage
     localStorage.setItem('ollamaConfig', JSON.stringify(config));
@@ -65,22 +129,60 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
     <div className="settings-overlay">
       <div className="settings-panel">
         <div className="settings-header">
-          <h2>Ollama 配置</h2>
+          <h2>模型服务配置</h2>
           <button onClick={onClose} className="close-button">&times;</button>
         </div>
 
         <div className="settings-content">
           <section>
             <h3>连接配置</h3>
+            <label>
+              配置档
+              <div className="profile-row">
+                <select value={selectedProfileId} onChange={(e) => handleSelectProfile(e.target.value)}>
+                  <option value="">{profiles.length > 0 ? '选择已保存的配置档' : '暂无配置档'}</option>
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>{profile.name}</option>
+                  ))}
+                </select>
+                <button type="button" onClick={handleSaveProfile}>另存为</button>
+                <button type="button" onClick={handleDeleteProfile} disabled={!selectedProfileId}>删除</button>
+              </div>
+              <small>配置档保存服务类型、地址、API Key 和模型，选择后点击保存配置生效</small>
+            </label>
+            <label>
+              服务类型
+              <select
+                value={config.provider}
+                onChange={(e) => handleProviderChange(e.target.value as ProviderType)}
+              >
+                {(Object.keys(PROVIDERS) as ProviderType[]).map(type => (
+                  <option key={type} value={type}>{PROVIDERS[type].label}</option>
+                ))}
+              </select>
+            </label>
             <label>
               Base URL
               <input
                 type="text"
                 value={config.baseUrl}
                 onChange={(e) => handleChange('baseUrl', e.target.value)}
-                placeholder="http://localhost:11434"
+                placeholder={PROVIDERS[config.provider].defaultBaseUrl}
               />
             </label>
+            {config.provider !== 'ollama' && (
+              <label>
+                API Key
+                <input
+                  type="password"
+                  value={config.apiKey ?? ''}
+                  onChange={(e) => handleChange('apiKey', e.target.value)}
+                  placeholder={PROVIDERS[config.provider].requiresApiKey ? 'sk-...' : '本地服务可留空'}
+                  autoComplete="off"
+                />
+                <small>API Key 仅保存在当前浏览器的本地存储中</small>
+              </label>
+            )}
             <label>
               Model
               <input
@@ -92,30 +194,65 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
             </label>
           </section>
 
+          <section>
+            <h3>模型管理</h3>
+            {config.provider === 'ollama' ? (
+              <ModelManager
+                baseUrl={config.baseUrl}
+                selectedModel={config.model}
+                onSelect={(model) => handleChange('model', model)}
+                onModelsChange={onModelsChange}
+              />
+            ) : (
+              <p className="settings-hint">模型的拉取和删除仅支持 Ollama，其他服务请在服务端管理模型。</p>
+            )}
+          </section>
+
+          <section>
+            <h3>知识库</h3>
+            <KnowledgeManager
+              baseUrl={config.provider === 'ollama' ? config.baseUrl : PROVIDERS.ollama.defaultBaseUrl}
+              onKnowledgeChange={onKnowledgeChange}
+            />
+            <small>文档使用 Ollama 嵌入模型向量化并保存在浏览器本地，在侧边栏为会话启用后参与检索</small>
+          </section>
+
+          <section>
+            <h3>工具凭据</h3>
+            <ToolSecretsManager />
+            <small>凭据保存在服务端的 secrets.local.json 中，由代理在请求时注入，不会保存到浏览器或打包到前端；仅允许在本机修改</small>
+          </section>
+
           <section>
             <h3>参数配置</h3>
+            <SamplingFields values={config} onChange={handleSamplingChange} />
+            <small>全局默认的生成参数，留空使用模型默认值；可以在侧边栏为单个会话覆盖</small>
+          </section>
+
+          <section>
+            <h3>对话记忆</h3>
             <label>
-              Temperature (0-2)
+              上下文窗口 (tokens)
               <input
                 type="number"
-                min="0"
-                max="2"
-                step="0.1"
-                value={config.temperature}
-                onChange={(e) => handleChange('temperature', parseFloat(e.target.value) || 0)}
+                min="512"
+                max="131072"
+                step="512"
+                value={config.contextWindow}
+                onChange={(e) => handleChange('contextWindow', parseInt(e.target.value) || 4096)}
               />
-              <small>值越低越精确，值越高越随机</small>
+              <small>历史消息 + 最大输出超出该预算时，会处理最早的对话轮次</small>
             </label>
             <label>
-              Max Tokens
-              <input
-                type="number"
-                min="1"
-                max="8192"
-                value={config.maxTokens}
-                onChange={(e) => handleChange('maxTokens', parseInt(e.target.value) || 1000)}
-              />
-              <small>生成文本的最大长度</small>
+              超出预算时
+              <select
+                value={config.memoryStrategy}
+                onChange={(e) => handleChange('memoryStrategy', e.target.value)}
+              >
+                <option value="trim">裁剪最早的对话</option>
+                <option value="summarize">摘要最早的对话</option>
+              </select>
+              <small>摘要会额外调用一次模型，但能保留更多上下文信息</small>
             </label>
           </section>
 
@@ -1,42 +1,84 @@
-import type { OllamaConfig } from '../types';
+import { useMemo, useRef, useState } from 'react';
+import type { ChatMessage, ChatSession, ExtractionSchema, KnowledgeBase, OllamaConfig, PromptTemplate, SamplingOptions, SamplingPreset } from '../types';
+import { PROVIDERS } from '../lib/providers';
+import { addPreset, compactOptions, loadPresets, removePreset } from '../lib/samplingPresets';
+import { DEFAULT_EXTRACTION_SCHEMA_ID, findSchema, loadSchemas, removeSchema, saveSchema } from '../lib/extractionSchemas';
+import { parseJsonSchema } from '../lib/jsonSchema';
+import { formatDuration, summarizeSession } from '../lib/metrics';
+import { downloadPrompts, importPrompts, loadPrompts, parsePromptFile, removePrompt, savePrompt } from '../lib/promptLibrary';
+import { SamplingFields } from './SamplingFields';
+import { getTool, listTools } from '../tools';
+import { SessionList } from './SessionList';
 
 interface SidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string | null;
   enableStream: boolean;
   enableThinking: boolean;
   useAgent: boolean;
   useSmartTool: boolean;
   systemPrompt: string;
-  messageCount: number;
-  toolCallResult?: { toolName: string; success: boolean } | null;
+  disabledTools: string[];
+  knowledgeBases: KnowledgeBase[];
+  knowledgeBaseIds: string[];
+  extractionSchemaId?: string;
+  sessionMessages: ChatMessage[]; // 当前会话的全部消息（含其他分支），用于会话统计
   isCollapsed: boolean;
   ollamaConfig: OllamaConfig;
+  samplingDefaults: SamplingOptions;
+  samplingOverrides: Partial<SamplingOptions>;
   onToggleCollapse: () => void;
   onEnableStreamChange: (enabled: boolean) => void;
   onEnableThinkingChange: (enabled: boolean) => void;
   onUseAgentChange: (enabled: boolean) => void;
   onUseSmartToolChange: (enabled: boolean) => void;
   onSystemPromptChange: (prompt: string) => void;
+  onToggleTool: (name: string, enabled: boolean) => void;
+  onToggleKnowledgeBase: (id: string, enabled: boolean) => void;
+  onExtractionSchemaChange: (id: string) => void;
+  onSamplingChange: (sampling: Partial<SamplingOptions>) => void;
+  onNewSession: () => void;
+  onSwitchSession: (id: string) => void;
+  onRenameSession: (id: string, title: string) => void;
+  onDeleteSession: (id: string) => void;
+  onImportSessions: (file: File) => void;
 }
 
 /**
  * 侧边栏组件：提供快捷配置选项
  */
 export const Sidebar: React.FC<SidebarProps> = ({
+  sessions,
+  activeSessionId,
   enableStream,
   enableThinking,
   useAgent,
   useSmartTool,
   systemPrompt,
-  messageCount,
-  toolCallResult,
+  disabledTools,
+  knowledgeBases,
+  knowledgeBaseIds,
+  extractionSchemaId,
+  sessionMessages,
   isCollapsed,
   ollamaConfig,
+  samplingDefaults,
+  samplingOverrides,
   onToggleCollapse,
   onEnableStreamChange,
   onEnableThinkingChange,
   onUseAgentChange,
   onUseSmartToolChange,
   onSystemPromptChange,
+  onToggleTool,
+  onToggleKnowledgeBase,
+  onExtractionSchemaChange,
+  onSamplingChange,
+  onNewSession,
+  onSwitchSession,
+  onRenameSession,
+  onDeleteSession,
+  onImportSessions,
 }) => {
   return (
     <aside className={`sidebar ${isCollapsed ? 'collapsed' : ''}`}>
@@ -49,6 +91,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
       </button>
 
       <div className="sidebar-content">
+        <SessionList
+          sessions={sessions}
+          activeSessionId={activeSessionId}
+          onNewSession={onNewSession}
+          onSwitchSession={onSwitchSession}
+          onRenameSession={onRenameSession}
+          onDeleteSession={onDeleteSession}
+          onImportSessions={onImportSessions}
+        />
+
         <ToggleSection
           title="流式输出"
           checked={enableStream}
@@ -68,10 +120,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
           title="Agent 模式"
           checked={useAgent}
           onChange={onUseAgentChange}
-          label="使用 Agent 提取用户信息"
-          hint="启用后将从用户输入中提取结构化的用户信息"
+          label="使用 Agent 提取结构化信息"
+          hint="启用后将按提取模板从用户输入中提取结构化数据"
         />
 
+        {useAgent && (
+          <ExtractionSection selectedId={extractionSchemaId} onChange={onExtractionSchemaChange} />
+        )}
+
         <ToggleSection
           title="智能工具调用"
           checked={useSmartTool}
@@ -80,6 +136,16 @@ export const Sidebar: React.FC<SidebarProps> = ({
           hint="自动检测天气查询、用户信息提取等场景"
         />
 
+        {useSmartTool && (
+          <ToolsSection disabledTools={disabledTools} onToggleTool={onToggleTool} />
+        )}
+
+        <KnowledgeSection
+          knowledgeBases={knowledgeBases}
+          selectedIds={knowledgeBaseIds}
+          onToggle={onToggleKnowledgeBase}
+        />
+
         <TextareaSection
           title="系统提示词"
           value={systemPrompt}
@@ -89,16 +155,17 @@ export const Sidebar: React.FC<SidebarProps> = ({
           rows={5}
         />
 
-        <ConfigInfo config={ollamaConfig} />
+        <PromptLibrarySection systemPrompt={systemPrompt} onApplySystemPrompt={onSystemPromptChange} />
 
-        <StatsSection
-          messageCount={messageCount}
-          enableStream={enableStream}
-          enableThinking={enableThinking}
-          useAgent={useAgent}
-          useSmartTool={useSmartTool}
-          toolCallResult={toolCallResult}
+        <SamplingSection
+          defaults={samplingDefaults}
+          overrides={samplingOverrides}
+          onChange={onSamplingChange}
         />
+
+        <ConfigInfo config={ollamaConfig} />
+
+        <StatsSection messages={sessionMessages} />
       </div>
     </aside>
   );
@@ -126,6 +193,252 @@ const ToggleSection: React.FC<{
   </div>
 );
 
+// 子组件：工具开关（从工具注册表读取，按会话保存）
+const ToolsSection: React.FC<{
+  disabledTools: string[];
+  onToggleTool: (name: string, enabled: boolean) => void;
+}> = ({ disabledTools, onToggleTool }) => (
+  <div className="sidebar-section">
+    <h3>可用工具</h3>
+    {listTools().map(tool => (
+      <label key={tool.name} className="toggle-label" title={tool.description}>
+        <input
+          type="checkbox"
+          checked={!disabledTools.includes(tool.name)}
+          onChange={(e) => onToggleTool(tool.name, e.target.checked)}
+        />
+        {tool.title}
+      </label>
+    ))}
+    <p className="hint">仅对当前会话生效</p>
+  </div>
+);
+
+// 新建模板时的示例 Schema
+const EXAMPLE_SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: '标题' },
+    date: { type: 'string', format: 'date', description: '日期' },
+    tags: { type: 'array', items: { type: 'string' }, description: '标签' },
+  },
+  required: ['title'],
+}, null, 2);
+
+// 子组件：结构化提取模板（选择、新建、导入 JSON Schema）
+const ExtractionSection: React.FC<{
+  selectedId?: string;
+  onChange: (id: string) => void;
+}> = ({ selectedId, onChange }) => {
+  const [schemas, setSchemas] = useState<ExtractionSchema[]>(loadSchemas);
+  const [editing, setEditing] = useState<{ id?: string; name: string; text: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = findSchema(schemas, selectedId);
+
+  // 打开编辑器：内置模板只能复制为新模板
+  const openEditor = (schema?: ExtractionSchema) => {
+    setError(null);
+    setEditing(schema
+      ? {
+        id: schema.builtin ? undefined : schema.id,
+        name: schema.builtin ? `${schema.name}（副本）` : schema.name,
+        text: JSON.stringify(schema.jsonSchema, null, 2),
+      }
+      : { name: '', text: EXAMPLE_SCHEMA });
+  };
+
+  const handleImport = async (file: File) => {
+    const text = await file.text();
+    let title = '';
+    try {
+      const parsed = JSON.parse(text) as { title?: unknown };
+      title = typeof parsed.title === 'string' ? parsed.title : '';
+    } catch {
+      // 格式错误在保存时提示
+    }
+    setError(null);
+    setEditing({ name: title || file.name.replace(/\.json$/i, ''), text });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    try {
+      const name = editing.name.trim();
+      if (!name) {
+        throw new Error('请填写模板名称');
+      }
+      const schema: ExtractionSchema = { id: editing.id ?? crypto.randomUUID(), name, jsonSchema: parseJsonSchema(editing.text) };
+      setSchemas(saveSchema(schemas, schema));
+      onChange(schema.id);
+      setEditing(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '保存失败');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`确定删除提取模板「${selected.name}」吗？`)) return;
+    setSchemas(removeSchema(schemas, selected.id));
+    onChange(DEFAULT_EXTRACTION_SCHEMA_ID);
+  };
+
+  return (
+    <div className="sidebar-section">
+      <h3>提取模板</h3>
+      <div className="sampling-presets">
+        <select value={selected.id} onChange={(e) => onChange(e.target.value)}>
+          {schemas.map(schema => (
+            <option key={schema.id} value={schema.id}>{schema.name}</option>
+          ))}
+        </select>
+        <button onClick={() => openEditor(selected)} title={selected.builtin ? '复制为新模板' : '编辑模板'}>
+          {selected.builtin ? '复制' : '编辑'}
+        </button>
+        {!selected.builtin && <button onClick={handleDelete} title="删除模板">删除</button>}
+      </div>
+      <div className="sampling-actions schema-actions">
+        <button onClick={() => openEditor()}>新建</button>
+        <button onClick={() => fileInputRef.current?.click()} title="导入 JSON Schema 文件">导入</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {editing && (
+        <div className="schema-editor">
+          <input
+            type="text"
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            placeholder="模板名称"
+          />
+          <textarea
+            value={editing.text}
+            onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+            rows={10}
+            spellCheck={false}
+          />
+          {error && <p className="schema-error">{error}</p>}
+          <div className="sampling-actions">
+            <button onClick={() => setEditing(null)}>取消</button>
+            <button onClick={handleSave}>保存</button>
+          </div>
+        </div>
+      )}
+      <p className="hint">使用 JSON Schema 描述要提取的字段，仅对当前会话生效</p>
+    </div>
+  );
+};
+
+// 子组件：知识库开关（启用的知识库按会话保存）
+const KnowledgeSection: React.FC<{
+  knowledgeBases: KnowledgeBase[];
+  selectedIds: string[];
+  onToggle: (id: string, enabled: boolean) => void;
+}> = ({ knowledgeBases, selectedIds, onToggle }) => (
+  <div className="sidebar-section">
+    <h3>知识库</h3>
+    {knowledgeBases.map(knowledgeBase => (
+      <label
+        key={knowledgeBase.id}
+        className="toggle-label"
+        title={`${knowledgeBase.documents.length} 个文档 · ${knowledgeBase.embeddingModel}`}
+      >
+        <input
+          type="checkbox"
+          checked={selectedIds.includes(knowledgeBase.id)}
+          onChange={(e) => onToggle(knowledgeBase.id, e.target.checked)}
+        />
+        {knowledgeBase.name}
+      </label>
+    ))}
+    <p className="hint">
+      {knowledgeBases.length > 0
+        ? '启用后回答前检索相关片段并标注来源（Agent 模式除外）'
+        : '在设置中新建知识库并上传文档'}
+    </p>
+  </div>
+);
+
+// 子组件：会话生成参数（覆盖全局配置，可套用或保存预设）
+const SamplingSection: React.FC<{
+  defaults: SamplingOptions;
+  overrides: Partial<SamplingOptions>;
+  onChange: (sampling: Partial<SamplingOptions>) => void;
+}> = ({ defaults, overrides, onChange }) => {
+  const [presets, setPresets] = useState<SamplingPreset[]>(loadPresets);
+  const [presetId, setPresetId] = useState('');
+  const preset = presets.find(p => p.id === presetId);
+
+  const handleApplyPreset = (id: string) => {
+    setPresetId(id);
+    const selected = presets.find(p => p.id === id);
+    if (selected) {
+      onChange({ ...selected.options });
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = prompt('预设名称')?.trim();
+    if (!name) return;
+    const updated = addPreset(presets, name, overrides);
+    setPresets(updated);
+    setPresetId(updated[updated.length - 1].id);
+  };
+
+  const handleDeletePreset = () => {
+    if (!preset || preset.builtin || !confirm(`确定删除预设「${preset.name}」吗？`)) return;
+    setPresets(removePreset(presets, preset.id));
+    setPresetId('');
+  };
+
+  return (
+    <div className="sidebar-section">
+      <h3>生成参数</h3>
+      <div className="sampling-presets">
+        <select value={presetId} onChange={(e) => handleApplyPreset(e.target.value)}>
+          <option value="">选择预设...</option>
+          {presets.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <button onClick={handleSavePreset} disabled={Object.keys(overrides).length === 0} title="将当前会话的参数保存为预设">
+          保存
+        </button>
+        {preset && !preset.builtin && (
+          <button onClick={handleDeletePreset} title="删除预设">删除</button>
+        )}
+      </div>
+      <SamplingFields
+        values={overrides}
+        defaults={defaults}
+        onChange={(field, value) => onChange(compactOptions({ ...overrides, [field]: value }))}
+      />
+      <div className="sampling-actions">
+        <p className="hint">仅对当前会话生效，留空使用设置中的全局参数</p>
+        {Object.keys(overrides).length > 0 && (
+          <button
+            onClick={() => {
+              setPresetId('');
+              onChange({});
+            }}
+          >
+            恢复默认
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
 // 子组件：文本输入
 const TextareaSection: React.FC<{
   title: string;
@@ -147,41 +460,208 @@ const TextareaSection: React.FC<{
   </div>
 );
 
+const PROMPT_KIND_LABELS: Record<PromptTemplate['kind'], string> = {
+  system: '系统提示词',
+  user: '消息模板',
+};
+
+// 子组件：提示词库（应用系统提示词，管理消息模板，导入导出 JSON）
+const PromptLibrarySection: React.FC<{
+  systemPrompt: string;
+  onApplySystemPrompt: (prompt: string) => void;
+}> = ({ systemPrompt, onApplySystemPrompt }) => {
+  const [prompts, setPrompts] = useState<PromptTemplate[]>(loadPrompts);
+  const [selectedId, setSelectedId] = useState(prompts[0]?.id ?? '');
+  const [editing, setEditing] = useState<Omit<PromptTemplate, 'id' | 'builtin'> & { id?: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = prompts.find(prompt => prompt.id === selectedId);
+
+  // 打开编辑器：内置模板只能复制为新模板
+  const openEditor = (prompt?: Omit<PromptTemplate, 'id'> & { id?: string }) => {
+    setError(null);
+    setEditing(prompt
+      ? {
+        id: prompt.builtin ? undefined : prompt.id,
+        name: prompt.builtin ? `${prompt.name}（副本）` : prompt.name,
+        kind: prompt.kind,
+        content: prompt.content,
+      }
+      : { name: '', kind: 'user', content: '' });
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (!name || !editing.content.trim()) {
+      setError('请填写模板名称和内容');
+      return;
+    }
+    const prompt: PromptTemplate = { ...editing, id: editing.id ?? crypto.randomUUID(), name };
+    setPrompts(savePrompt(prompts, prompt));
+    setSelectedId(prompt.id);
+    setEditing(null);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtin || !confirm(`确定删除模板「${selected.name}」吗？`)) return;
+    const updated = removePrompt(prompts, selected.id);
+    setPrompts(updated);
+    setSelectedId(updated[0]?.id ?? '');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parsePromptFile(await file.text());
+      setPrompts(importPrompts(prompts, imported));
+      console.log(`📥 [Prompts] 已导入 ${imported.length} 个模板`);
+    } catch (err) {
+      console.error('❌ [Prompts] 导入模板失败:', err);
+      alert(err instanceof Error ? err.message : '导入模板失败');
+    }
+  };
+
+  return (
+    <div className="sidebar-section">
+      <h3>提示词库</h3>
+      <div className="sampling-presets">
+        <select value={selectedId} onChange={(e) => setSelectedId(e.target.value)}>
+          {(['system', 'user'] as const).map(kind => (
+            <optgroup key={kind} label={PROMPT_KIND_LABELS[kind]}>
+              {prompts.filter(prompt => prompt.kind === kind).map(prompt => (
+                <option key={prompt.id} value={prompt.id}>{prompt.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        {selected?.kind === 'system' && (
+          <button onClick={() => onApplySystemPrompt(selected.content)} title="设为当前会话的系统提示词">应用</button>
+        )}
+        {selected && (
+          <button onClick={() => openEditor(selected)} title={selected.builtin ? '复制为新模板' : '编辑模板'}>
+            {selected.builtin ? '复制' : '编辑'}
+          </button>
+        )}
+        {selected && !selected.builtin && <button onClick={handleDelete} title="删除模板">删除</button>}
+      </div>
+      <div className="sampling-actions schema-actions">
+        <button onClick={() => openEditor()}>新建</button>
+        <button
+          onClick={() => openEditor({ name: '', kind: 'system', content: systemPrompt })}
+          disabled={!systemPrompt.trim()}
+          title="将当前会话的系统提示词保存到提示词库"
+        >
+          保存当前
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} title="从 JSON 文件导入模板">导入</button>
+        <button
+          onClick={() => downloadPrompts(prompts)}
+          disabled={prompts.every(prompt => prompt.builtin)}
+          title="将自定义模板导出为 JSON 文件"
+        >
+          导出
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {editing && (
+        <div className="schema-editor">
+          <input
+            type="text"
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            placeholder="模板名称"
+          />
+          <select
+            value={editing.kind}
+            onChange={(e) => setEditing({ ...editing, kind: e.target.value as PromptTemplate['kind'] })}
+          >
+            <option value="system">{PROMPT_KIND_LABELS.system}</option>
+            <option value="user">{PROMPT_KIND_LABELS.user}</option>
+          </select>
+          <textarea
+            value={editing.content}
+            onChange={(e) => setEditing({ ...editing, content: e.target.value })}
+            placeholder={editing.kind === 'user' ? '例如：请把下面的内容翻译成{{目标语言}}：{{内容}}' : '系统提示词内容'}
+            rows={6}
+          />
+          {error && <p className="schema-error">{error}</p>}
+          <div className="sampling-actions">
+            <button onClick={() => setEditing(null)}>取消</button>
+            <button onClick={handleSave}>保存</button>
+          </div>
+        </div>
+      )}
+      <p className="hint">消息模板用 {'{{变量}}'} 标记待填写的内容，在输入框中输入 / 即可插入模板或运行命令</p>
+    </div>
+  );
+};
+
 // 子组件：当前配置信息展示
 const ConfigInfo: React.FC<{ config: OllamaConfig }> = ({ config }) => (
   <div className="sidebar-section">
     <h3>当前模型配置</h3>
     <div className="config-info">
+      <p><strong>服务:</strong> {PROVIDERS[config.provider].label}</p>
       <p><strong>模型:</strong> {config.model}</p>
       <p><strong>地址:</strong> {config.baseUrl}</p>
       <p><strong>温度:</strong> {config.temperature}</p>
       <p><strong>最大Token:</strong> {config.maxTokens}</p>
+      <p><strong>上下文窗口:</strong> {config.contextWindow}（{config.memoryStrategy === 'summarize' ? '摘要' : '裁剪'}）</p>
     </div>
   </div>
 );
 
-// 子组件：统计信息
-const StatsSection: React.FC<{
-  messageCount: number;
-  enableStream: boolean;
-  enableThinking: boolean;
-  useAgent: boolean;
-  useSmartTool: boolean;
-  toolCallResult?: { toolName: string; success: boolean } | null;
-}> = ({ messageCount, enableStream, enableThinking, useAgent, useSmartTool, toolCallResult }) => (
-  <div className="sidebar-section">
-    <h3>统计</h3>
-    <div className="stats">
-      <p>消息数: {messageCount}</p>
-      <p>流式输出: {enableStream ? '已启用' : '已禁用'}</p>
-      <p>思考过程: {enableThinking ? '已启用' : '已禁用'}</p>
-      <p>Agent 模式: {useAgent ? '已启用' : '已禁用'}</p>
-      <p>智能工具: {useSmartTool ? '已启用' : '已禁用'}</p>
-      {toolCallResult && (
-        <p className="tool-call-status">
-          最近工具: {toolCallResult.toolName} ({toolCallResult.success ? '✅ 成功' : '❌ 失败'})
+// 子组件：会话统计（token 用量、各模型的平均性能、工具调用成功率）
+const StatsSection: React.FC<{ messages: ChatMessage[] }> = ({ messages }) => {
+  const stats = useMemo(() => summarizeSession(messages), [messages]);
+  return (
+    <div className="sidebar-section">
+      <h3>会话统计</h3>
+      <div className="stats">
+        <p>消息数: {stats.messageCount}</p>
+        <p>
+          Token: {stats.inputTokens + stats.outputTokens}
+          <small>（输入 {stats.inputTokens} / 输出 {stats.outputTokens}）</small>
         </p>
-      )}
+        {stats.models.length > 0 && (
+          <div className="stats-group">
+            <h4>模型性能</h4>
+            {stats.models.map(model => (
+              <div key={model.model} className="stats-row">
+                <strong title={model.model}>{model.model}</strong>
+                <span>
+                  {model.responses} 次 · 平均 {formatDuration(model.avgDurationMs)}
+                  {model.avgTtftMs !== undefined && ` · 首字 ${formatDuration(model.avgTtftMs)}`}
+                  {model.avgTokensPerSecond !== undefined && ` · ${model.avgTokensPerSecond.toFixed(1)} tok/s`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        {stats.tools.length > 0 && (
+          <div className="stats-group">
+            <h4>工具调用</h4>
+            {stats.tools.map(tool => (
+              <div key={tool.toolName} className="stats-row">
+                <strong>{getTool(tool.toolName)?.title ?? tool.toolName}</strong>
+                <span>
+                  ✅ {tool.success} · ❌ {tool.failed} · 成功率 {Math.round((tool.success / (tool.success + tool.failed)) * 100)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
-  </div>
-);
+  );
+};
@@ -0,0 +1,216 @@
+import { useState, type FC } from 'react';
+import type { ExtractionIssue, ExtractionResult, JsonSchema } from '../types';
+import { setValueAtPath } from '../lib/extraction';
+
+interface StructuredDataCardProps {
+  result: ExtractionResult;
+  onChange?: (data: Record<string, unknown>) => void; // 传入时可以在卡片中修正字段
+}
+
+type Path = Array<string | number>;
+
+// 字段渲染时共用的上下文
+interface FieldContext {
+  issues: ExtractionIssue[];
+  onEdit?: (path: Path, value: unknown) => void;
+}
+
+const asSchema = (value: unknown): JsonSchema =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as JsonSchema : {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isObjectSchema = (schema: JsonSchema) => schema.type === 'object' || !!schema.properties;
+
+const samePath = (a: Path, b: Path) => a.length === b.length && a.every((key, index) => key === b[index]);
+
+const findIssue = (issues: ExtractionIssue[], path: Path) => issues.find(issue => samePath(issue.path, path));
+
+// 数组元素等子路径上的问题
+const hasChildIssue = (issues: ExtractionIssue[], path: Path) =>
+  issues.some(issue => issue.path.length > path.length && samePath(issue.path.slice(0, path.length), path));
+
+// 字段显示名称：优先使用 title，其次 description
+const fieldLabel = (key: string, schema: JsonSchema) =>
+  (typeof schema.title === 'string' && schema.title) || (typeof schema.description === 'string' && schema.description) || key;
+
+// Schema 中声明的字段在前，其余字段按结果中的顺序追加
+const fieldKeys = (schema: JsonSchema, value: Record<string, unknown>) => {
+  const declared = Object.keys(asSchema(schema.properties));
+  return [...declared, ...Object.keys(value).filter(key => !declared.includes(key))];
+};
+
+// 可以直接在输入框中修改的字段：基础类型、枚举和基础类型数组
+const isEditable = (schema: JsonSchema) => {
+  const type = Array.isArray(schema.type) ? schema.type.find(item => item !== 'null') : schema.type;
+  if (type === 'array') {
+    return ['string', 'number', 'integer'].includes(asSchema(schema.items).type as string);
+  }
+  return Array.isArray(schema.enum) || ['string', 'number', 'integer', 'boolean'].includes(type as string);
+};
+
+/**
+ * 结构化提取结果卡片：按提取模板的 JSON Schema 渲染字段
+ * 缺少或未通过校验的字段会高亮显示，可以直接在卡片中修正
+ */
+export const StructuredDataCard: FC<StructuredDataCardProps> = ({ result, onChange }) => {
+  const issues = result.issues ?? [];
+  const rootIssue = findIssue(issues, []);
+  const repairs = (result.attempts ?? 1) - 1;
+  const context: FieldContext = {
+    issues,
+    onEdit: onChange && ((path, value) => onChange(setValueAtPath(result.data, path, value))),
+  };
+
+  return (
+    <div className="data-card">
+      <h3>
+        <span>📋</span> 提取的{result.schemaName}
+        <small className="data-card-status">
+          {issues.length > 0 ? `⚠️ ${issues.length} 个字段需要确认` : '✅ 校验通过'}
+          {repairs > 0 && ` · 修正 ${repairs} 次`}
+        </small>
+      </h3>
+      {rootIssue && <p className="data-field-issue">{rootIssue.message}</p>}
+      <ObjectFields schema={result.jsonSchema} value={result.data} path={[]} context={context} />
+    </div>
+  );
+};
+
+// 对象字段列表；parentMissing 为 true 时整个对象缺失，列出 Schema 中的全部字段供填写
+const ObjectFields: FC<{
+  schema: JsonSchema;
+  value: Record<string, unknown>;
+  path: Path;
+  context: FieldContext;
+  parentMissing?: boolean;
+}> = ({ schema, value, path, context, parentMissing }) => {
+  const properties = asSchema(schema.properties);
+  return (
+    <div className="data-fields">
+      {fieldKeys(schema, value).map(key => {
+        const fieldPath = [...path, key];
+        const fieldSchema = asSchema(properties[key]);
+        const fieldValue = value[key];
+        const issue = findIssue(context.issues, fieldPath);
+        const missing = fieldValue === undefined || fieldValue === null;
+        if (missing && !issue && !parentMissing) return null;
+
+        const nested = isObjectSchema(fieldSchema) && (missing || isRecord(fieldValue));
+        const status = issue?.kind ?? (missing ? 'missing' : !nested && hasChildIssue(context.issues, fieldPath) ? 'invalid' : 'ok');
+        return (
+          <div key={key} className={`data-field ${status} ${nested || typeof fieldValue === 'object' ? 'wide' : ''}`} title={issue?.message}>
+            <strong>{fieldLabel(key, fieldSchema)}:</strong>{' '}
+            {nested ? (
+              <ObjectFields
+                schema={fieldSchema}
+                value={isRecord(fieldValue) ? fieldValue : {}}
+                path={fieldPath}
+                context={context}
+                parentMissing={missing}
+              />
+            ) : context.onEdit && status !== 'ok' && isEditable(fieldSchema) ? (
+              <FieldInput schema={fieldSchema} value={fieldValue} onCommit={value => context.onEdit!(fieldPath, value)} />
+            ) : missing ? (
+              <span className="data-field-empty">未提供</span>
+            ) : (
+              <FieldValue schema={fieldSchema} value={fieldValue} path={fieldPath} context={context} />
+            )}
+            {issue && <span className="data-field-issue">{issue.message}</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+// 字段输入框：失去焦点或回车时提交，留空表示删除该字段
+const FieldInput: FC<{ schema: JsonSchema; value: unknown; onCommit: (value: unknown) => void }> = ({ schema, value, onCommit }) => {
+  const isArray = schema.type === 'array';
+  const itemType = isArray ? asSchema(schema.items).type : schema.type;
+  const [draft, setDraft] = useState(
+    value === undefined || value === null ? '' : Array.isArray(value) ? value.join('、') : String(value)
+  );
+
+  const parse = (text: string): unknown => {
+    const toValue = (item: string) => {
+      if (itemType !== 'number' && itemType !== 'integer') return item;
+      const number = Number(item);
+      return Number.isNaN(number) ? item : number;
+    };
+    if (!text.trim()) return undefined;
+    return isArray ? text.split(/[,，、]/).map(item => item.trim()).filter(Boolean).map(toValue) : toValue(text.trim());
+  };
+
+  if (Array.isArray(schema.enum) || schema.type === 'boolean') {
+    const options = Array.isArray(schema.enum) ? schema.enum : [true, false];
+    return (
+      <select
+        className="data-field-input"
+        value={value === undefined ? '' : JSON.stringify(value)}
+        onChange={(e) => onCommit(e.target.value ? JSON.parse(e.target.value) : undefined)}
+      >
+        <option value="">请选择</option>
+        {options.map(option => (
+          <option key={JSON.stringify(option)} value={JSON.stringify(option)}>
+            {typeof option === 'boolean' ? (option ? '是' : '否') : String(option)}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input
+      className="data-field-input"
+      type="text"
+      value={draft}
+      placeholder={isArray ? '多个值用顿号或逗号分隔' : '请填写'}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(parse(draft))}
+      onKeyDown={(e) => e.key === 'Enter' && onCommit(parse(draft))}
+    />
+  );
+};
+
+// 单个字段值：对象数组渲染为表格，其余转为文本
+const FieldValue: FC<{ schema: JsonSchema; value: unknown; path: Path; context: FieldContext }> = ({ schema, value, path, context }) => {
+  if (Array.isArray(value)) {
+    const itemSchema = asSchema(schema.items);
+    if (value.length > 0 && value.every(isRecord)) {
+      const columns = Array.from(new Set([...Object.keys(asSchema(itemSchema.properties)), ...value.flatMap(Object.keys)]));
+      return (
+        <table className="data-table">
+          <thead>
+            <tr>
+              {columns.map(column => (
+                <th key={column}>{fieldLabel(column, asSchema(asSchema(itemSchema.properties)[column]))}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {value.map((row, index) => (
+              <tr key={index}>
+                {columns.map(column => {
+                  const issue = findIssue(context.issues, [...path, index, column]);
+                  return (
+                    <td key={column} className={issue?.kind} title={issue?.message}>{formatValue(row[column])}</td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      );
+    }
+    return <>{value.map(formatValue).join('、')}</>;
+  }
+  return <>{formatValue(value)}</>;
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'boolean') return value ? '是' : '否';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
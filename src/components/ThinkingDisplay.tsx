@@ -1,4 +1,5 @@
 import { type FC } from 'react';
+import { MarkdownContent } from './MarkdownContent';
 
 interface ThinkingDisplayProps {
   thinking: string;
@@ -15,7 +16,9 @@ export const ThinkingDisplay: FC<ThinkingDisplayProps> = ({ thinking, isStreamin
         <summary>
           <span className="thinking-label">思考过程</span>
         </summary>
-        <div className="thinking-text">{thinking}</div>
+        <div className="thinking-text">
+          <MarkdownContent content={thinking} isStreaming={isStreaming} />
+        </div>
       </details>
     </div>
   );
@@ -0,0 +1,56 @@
+import { type FC } from 'react';
+import type { FetchStats, ToolCallDraft, ToolCallResult } from '../types';
+import { getTool } from '../tools';
+
+interface ToolCallListProps {
+  toolCalls: ToolCallResult[];
+  drafts?: ToolCallDraft[]; // 模型正在生成参数的工具调用
+}
+
+// 缓存命中标记：全部命中显示“缓存”，部分命中显示命中数量
+const CacheBadge: FC<{ stats?: FetchStats }> = ({ stats }) => {
+  if (!stats || stats.cacheHits === 0) return null;
+  const all = stats.cacheHits === stats.requests;
+  return (
+    <span className="tool-call-cache" title={`${stats.requests} 个请求中 ${stats.cacheHits} 个命中缓存（命中缓存的请求不消耗 API 额度）`}>
+      ⚡ {all ? '缓存' : `缓存 ${stats.cacheHits}/${stats.requests}`}
+    </span>
+  );
+};
+
+/**
+ * 工具调用记录：展示本轮调用过的工具、参数及是否成功
+ * 工具在注册表中声明了 renderResult 时使用其渲染结果，否则展示 JSON
+ */
+export const ToolCallList: FC<ToolCallListProps> = ({ toolCalls, drafts = [] }) => {
+  if (toolCalls.length === 0 && drafts.length === 0) return null;
+
+  return (
+    <div className="tool-calls">
+      {toolCalls.map((call, index) => {
+        const tool = getTool(call.toolName);
+        const rendered = call.success && tool?.renderResult ? tool.renderResult(call.result) : null;
+        return (
+          <details key={call.id ?? index} className={`tool-call ${call.success ? 'success' : 'failed'}`} open={!!rendered}>
+            <summary>
+              🔧 {tool?.title ?? call.toolName}
+              {call.args && <code>{JSON.stringify(call.args)}</code>}
+              <CacheBadge stats={call.fetchStats} />
+              <span>{call.success ? '✅' : '❌'}</span>
+            </summary>
+            {rendered ?? <pre>{call.success ? JSON.stringify(call.result, null, 2) : call.error}</pre>}
+          </details>
+        );
+      })}
+      {drafts.map(draft => (
+        <details key={`${draft.index}-${draft.id ?? ''}`} className="tool-call pending">
+          <summary>
+            🔧 {getTool(draft.name)?.title ?? (draft.name || '工具')}
+            {draft.args && <code>{draft.args}</code>}
+            <span>⏳</span>
+          </summary>
+        </details>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { fetchToolSecrets, saveToolSecrets, type SecretFieldStatus, type ToolSecretStatus, type ToolSecretsPatch } from '../lib/toolSecrets';
+
+const SOURCE_LABELS = {
+  file: '密钥文件',
+  env: '环境变量',
+  default: '默认值',
+};
+
+// 字段当前状态的说明
+const describeField = (field: SecretFieldStatus) => {
+  if (!field.source) return `未配置（也可设置环境变量 ${field.env}）`;
+  const current = field.secret ? field.preview : field.value;
+  return `${current} · 来自${SOURCE_LABELS[field.source]}${field.source === 'env' ? ` ${field.env}` : ''}`;
+};
+
+/**
+ * 工具凭据管理：查看和修改天气等工具使用的 API Key
+ * 凭据由服务端保存并在代理请求时注入，保存后立即生效，无需重新构建
+ */
+export const ToolSecretsManager: React.FC = () => {
+  const [tools, setTools] = useState<ToolSecretStatus[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [adminToken, setAdminToken] = useState(''); // 只保存在内存中
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchToolSecrets(controller.signal)
+      .then(setTools)
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.warn('⚠️ [Tool Secrets] 读取工具凭据失败:', err);
+        setError(err instanceof Error ? err.message : '读取工具凭据失败');
+      });
+    return () => controller.abort();
+  }, []);
+
+  const draftKey = (toolId: string, key: string) => `${toolId}.${key}`;
+
+  const save = async (patch: ToolSecretsPatch) => {
+    setSaving(true);
+    setError(null);
+    try {
+      setTools(await saveToolSecrets(patch, adminToken.trim() || undefined));
+      setDrafts({});
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      console.error('❌ [Tool Secrets] 保存工具凭据失败:', err);
+      setError(err instanceof Error ? err.message : '保存工具凭据失败');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    const patch: ToolSecretsPatch = {};
+    for (const [id, value] of Object.entries(drafts)) {
+      const [toolId, key] = id.split('.');
+      if (value.trim()) {
+        (patch[toolId] ??= {})[key] = value;
+      }
+    }
+    save(patch);
+  };
+
+  const hasDrafts = Object.values(drafts).some(value => value.trim());
+
+  return (
+    <div className="tool-secrets">
+      {tools.map(tool => (
+        <div key={tool.id} className="tool-secrets-group">
+          <strong>{tool.title}</strong>
+          {tool.fields.map(field => (
+            <label key={field.key}>
+              {field.label}
+              <div className="tool-secrets-input">
+                <input
+                  type={field.secret ? 'password' : 'text'}
+                  autoComplete="off"
+                  value={drafts[draftKey(tool.id, field.key)] ?? ''}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [draftKey(tool.id, field.key)]: e.target.value }))}
+                  placeholder={field.secret ? '输入新的值以替换' : field.placeholder}
+                />
+                {field.source === 'file' && (
+                  <button
+                    onClick={() => save({ [tool.id]: { [field.key]: '' } })}
+                    disabled={saving}
+                    title="从密钥文件中删除，回退到环境变量或默认值"
+                  >
+                    清除
+                  </button>
+                )}
+              </div>
+              <small>{describeField(field)}</small>
+            </label>
+          ))}
+        </div>
+      ))}
+      {tools.length > 0 && (
+        <div className="tool-secrets-group">
+          <label>
+            管理令牌
+            <div className="tool-secrets-input">
+              <input
+                type="password"
+                autoComplete="off"
+                value={adminToken}
+                onChange={(e) => setAdminToken(e.target.value)}
+                placeholder="服务端设置了 TOOL_SECRETS_TOKEN 时填写"
+              />
+            </div>
+            <small>独立服务必须设置令牌才能在线修改凭据，开发服务器未设置时仅限本机修改</small>
+          </label>
+        </div>
+      )}
+      {tools.length > 0 && (
+        <button onClick={handleSave} disabled={!hasDrafts || saving}>
+          {saved ? '✓ 已保存' : '保存凭据'}
+        </button>
+      )}
+      {error && <div className="model-manager-error">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import type { FC, ReactNode } from 'react';
+import type {
+  AirQualityData,
+  HourlyForecastData,
+  WeatherData,
+  WeatherForecastData,
+  WeatherLocation,
+  WeatherWarningsData,
+} from '../tools/getWeather';
+
+// 和风天气图标代码转换为 emoji（1xx 晴/云，3xx 雨，4xx 雪，5xx 雾霾沙尘）
+const weatherEmoji = (icon: string) => {
+  const code = Number(icon);
+  if (code === 100) return '☀️';
+  if (code === 150) return '🌙';
+  if (code === 101 || code === 102 || code === 103 || code === 151 || code === 152 || code === 153) return '⛅';
+  if (code === 104) return '☁️';
+  if (code >= 302 && code <= 304) return '⛈️';
+  if (code >= 300 && code < 400) return '🌧️';
+  if (code >= 400 && code < 500) return '🌨️';
+  if (code >= 500 && code < 600) return '🌫️';
+  if (code === 900) return '🔥';
+  if (code === 901) return '🥶';
+  return '🌡️';
+};
+
+const WEEKDAYS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+// 2024-05-01 → 05-01 周三
+const formatDate = (date: string) => `${date.slice(5)} ${WEEKDAYS[new Date(`${date}T00:00`).getDay()]}`;
+
+// 2024-05-01T13:00+08:00 → 13:00
+const formatHour = (time: string) => time.slice(11, 16);
+
+// 2024-05-01T13:00+08:00 → 2024-05-01 13:00
+const formatTime = (time: string) => time.slice(0, 16).replace('T', ' ');
+
+// 和风天气预警颜色转换为 CSS 颜色
+const WARNING_COLORS: Record<string, string> = {
+  White: '#e2e8f0',
+  Blue: '#4299e1',
+  Green: '#48bb78',
+  Yellow: '#ecc94b',
+  Orange: '#ed8936',
+  Red: '#e53e3e',
+  Black: '#1a202c',
+};
+
+// 卡片标题：城市名称、行政区与数据时间
+const WeatherHeader: FC<{ icon: string; title: string; location: WeatherLocation; time?: string; link?: string }> = ({
+  icon,
+  title,
+  location,
+  time,
+  link,
+}) => {
+  const region = [location.adm2, location.adm1].filter(item => item && item !== location.name).join(' · ');
+  return (
+    <h3>
+      <span>{icon}</span> {location.name}{title}
+      {region && <small className="weather-region">{region}</small>}
+      <small className="weather-time">
+        {time && `更新于 ${formatTime(time)}`}
+        {link && <a href={link} target="_blank" rel="noreferrer">详情</a>}
+      </small>
+    </h3>
+  );
+};
+
+const WeatherStat: FC<{ label: string; children: ReactNode }> = ({ label, children }) => (
+  <div className="weather-stat">
+    <span>{label}</span>
+    <strong>{children}</strong>
+  </div>
+);
+
+/**
+ * 实时天气卡片
+ */
+export const CurrentWeatherCard: FC<{ data: WeatherData }> = ({ data }) => (
+  <div className="weather-card">
+    <WeatherHeader icon="🌤️" title="实时天气" location={data.location} time={data.now.obsTime} link={data.now.fxLink} />
+    <div className="weather-now">
+      <span className="weather-now-icon">{weatherEmoji(data.now.icon)}</span>
+      <span className="weather-now-temp">{data.now.temp}°</span>
+      <div>
+        <strong>{data.now.text}</strong>
+        <small>体感 {data.now.feelsLike}°</small>
+      </div>
+    </div>
+    <div className="weather-stats">
+      <WeatherStat label="风向风力">{data.now.windDir} {data.now.windScale} 级</WeatherStat>
+      <WeatherStat label="湿度">{data.now.humidity}%</WeatherStat>
+      <WeatherStat label="降水">{data.now.precip} mm</WeatherStat>
+      <WeatherStat label="气压">{data.now.pressure} hPa</WeatherStat>
+      <WeatherStat label="能见度">{data.now.vis} km</WeatherStat>
+    </div>
+  </div>
+);
+
+/**
+ * 每日预报卡片：温度条按预报期内的最低/最高气温比例绘制
+ */
+export const ForecastCard: FC<{ data: WeatherForecastData }> = ({ data }) => {
+  const min = Math.min(...data.daily.map(day => day.tempMin));
+  const max = Math.max(...data.daily.map(day => day.tempMax));
+  const range = max - min || 1;
+  return (
+    <div className="weather-card">
+      <WeatherHeader icon="📅" title={`未来 ${data.daily.length} 天`} location={data.location} time={data.updateTime} link={data.fxLink} />
+      <ul className="weather-daily">
+        {data.daily.map(day => (
+          <li key={day.date}>
+            <span className="weather-daily-date">{formatDate(day.date)}</span>
+            <span className="weather-daily-text">
+              {weatherEmoji(day.iconDay)} {day.textDay === day.textNight ? day.textDay : `${day.textDay}转${day.textNight}`}
+            </span>
+            <span className="weather-daily-temp">{day.tempMin}°</span>
+            <span className="weather-temp-bar">
+              <span
+                style={{
+                  left: `${((day.tempMin - min) / range) * 100}%`,
+                  right: `${((max - day.tempMax) / range) * 100}%`,
+                }}
+              />
+            </span>
+            <span className="weather-daily-temp">{day.tempMax}°</span>
+            <small>
+              {day.windDirDay} {day.windScaleDay} 级{day.precip > 0 && ` · 降水 ${day.precip} mm`}
+            </small>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+/**
+ * 逐小时预报卡片：横向滚动展示 24 小时
+ */
+export const HourlyForecastCard: FC<{ data: HourlyForecastData }> = ({ data }) => (
+  <div className="weather-card">
+    <WeatherHeader icon="🕒" title="未来 24 小时" location={data.location} time={data.updateTime} link={data.fxLink} />
+    <ul className="weather-hourly">
+      {data.hourly.map(hour => (
+        <li key={hour.time} title={`${hour.text} · ${hour.windDir} ${hour.windScale} 级 · 湿度 ${hour.humidity}%`}>
+          <small>{formatHour(hour.time)}</small>
+          <span>{weatherEmoji(hour.icon)}</span>
+          <strong>{hour.temp}°</strong>
+          {hour.pop !== undefined && <small>💧{hour.pop}%</small>}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+/**
+ * 空气质量卡片
+ */
+export const AirQualityCard: FC<{ data: AirQualityData }> = ({ data }) => (
+  <div className="weather-card">
+    <WeatherHeader icon="🌬️" title="空气质量" location={data.location} />
+    <div className="weather-now">
+      <span className="weather-aqi" style={{ background: data.color }}>{data.aqi}</span>
+      <div>
+        <strong>{data.category}</strong>
+        {data.primaryPollutant && <small>首要污染物：{data.primaryPollutant}</small>}
+      </div>
+    </div>
+    <div className="weather-stats">
+      {data.pollutants.map(pollutant => (
+        <WeatherStat key={pollutant.code} label={pollutant.name}>
+          {pollutant.value} {pollutant.unit}
+        </WeatherStat>
+      ))}
+    </div>
+    {data.health && (
+      <p className="weather-note">
+        {data.health.effect}
+        <br />
+        建议：{data.health.advice}
+      </p>
+    )}
+  </div>
+);
+
+/**
+ * 天气预警卡片
+ */
+export const WeatherWarningCard: FC<{ data: WeatherWarningsData }> = ({ data }) => (
+  <div className="weather-card">
+    <WeatherHeader icon="⚠️" title="天气预警" location={data.location} time={data.updateTime} />
+    {data.warnings.length === 0 ? (
+      <p className="weather-note">✅ 当前没有生效的天气预警</p>
+    ) : (
+      <ul className="weather-warnings">
+        {data.warnings.map(warning => (
+          <li key={warning.id} style={{ borderLeftColor: WARNING_COLORS[warning.severityColor] ?? '#ed8936' }}>
+            <strong>{warning.title}</strong>
+            <small>
+              {warning.sender} · {formatTime(warning.startTime)}
+              {warning.endTime && ` 至 ${formatTime(warning.endTime)}`}
+            </small>
+            <p>{warning.text}</p>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -1,148 +1,379 @@
-import { useState, useCallback } from 'react';
-import { ChatMessage, type ToolCallResult } from '../types';
-import { sendMessage, chatStream, executeAgentStream, smartChatStream } from '../lib/langchain';
-import type { User } from '../schemas/zod';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import { ChatMessage, type Attachment, type ChatSession, type Citation, type ExtractionResult, type ExtractionSchema, type TokenUsage, type ToolCallDraft, type ToolCallResult } from '../types';
+import { sendMessage, chatStream, executeAgentStream, smartChatStream, generateTitle, isAbortError } from '../lib/langchain';
+import { DEFAULT_SESSION_TITLE, fallbackTitle } from '../lib/sessionStore';
+import { ChatError } from '../lib/errors';
+import { revalidateExtraction } from '../lib/extraction';
+import { buildMetrics } from '../lib/metrics';
+import { findLeaf, getActivePath, getBranchInfo, getSiblings } from '../lib/messageTree';
+import type { UpdateSession } from './useSessions';
 
-export const useChat = () => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+// 发送选项
+export interface SendOptions {
+  systemPrompt?: string;    // 系统提示词
+  stream?: boolean;         // 是否流式输出
+  useAgent?: boolean;       // 是否使用 Agent 模式
+  useSmartTool?: boolean;   // 是否使用智能工具调用
+  enabledTools?: string[];  // 智能工具调用模式下启用的工具
+  knowledgeBaseIds?: string[]; // 检索的知识库（Agent 模式不检索）
+  extractionSchema?: ExtractionSchema; // Agent 模式使用的提取模板
+}
+
+/**
+ * 聊天逻辑 Hook
+ * 消息以树的形式保存在当前会话中，通过 updateSession 写回会话存储；
+ * messages 为当前分支上从根到叶子的消息路径
+ */
+export const useChat = (session: ChatSession | null, updateSession: UpdateSession) => {
+  const allMessages = useMemo(() => session?.messages ?? [], [session]);
+  const messages = useMemo(
+    () => getActivePath(allMessages, session?.currentLeafId),
+    [allMessages, session?.currentLeafId]
+  );
+  const branches = useMemo(() => getBranchInfo(allMessages, messages), [allMessages, messages]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ChatError | null>(null);
   const [streamingResponse, setStreamingResponse] = useState<string>('');
   const [streamingThinking, setStreamingThinking] = useState<string>('');
-  const [extractedUser, setExtractedUser] = useState<User | null>(null);
-  const [toolCallResult, setToolCallResult] = useState<ToolCallResult | null>(null);
+  const [streamingToolCalls, setStreamingToolCalls] = useState<ToolCallResult[]>([]);
+  const [streamingToolDrafts, setStreamingToolDrafts] = useState<ToolCallDraft[]>([]);
+  // 当前生成的中断控制器
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // 最近一次失败的生成请求，用于重试
+  const failedRequestRef = useRef<{
+    session: ChatSession;
+    userMessage: ChatMessage;
+    history: ChatMessage[];
+    options?: SendOptions;
+  } | null>(null);
 
-  // 添加消息到聊天记录
-  const addMessage = useCallback((role: ChatMessage['role'], content: string, thinking?: string) => {
+  // 添加消息到指定会话，并将其设为当前分支的叶子
+  const addMessage = useCallback((
+    sessionId: string,
+    fields: Pick<ChatMessage, 'role' | 'content'> & Partial<ChatMessage>
+  ) => {
     const newMessage: ChatMessage = {
       id: crypto.randomUUID(),
-      role,
-      content,
+      parentId: null,
       timestamp: Date.now(),
-      thinking: role === 'assistant' ? thinking : undefined,
+      ...fields,
     };
-    setMessages(prev => [...prev, newMessage]);
+    updateSession(sessionId, prev => ({
+      messages: [...prev.messages, newMessage],
+      currentLeafId: newMessage.id,
+    }));
     return newMessage;
+  }, [updateSession]);
+
+  // 中断当前生成
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
   }, []);
 
-  // 发送消息到 AI
-  const sendMessageToAI = useCallback(async (
-    userMessage: string,
-    options?: {
-    systemPrompt?: string;    // 系统提示词
-    stream?: boolean;         // 是否流式输出
-    useAgent?: boolean;       // 是否使用 Agent 模式
-    useSmartTool?: boolean;   // 是否使用智能工具调用
-    }
+  /**
+   * 针对一条已在消息树中的用户消息生成回答
+   * @param userMessage 用户消息（回答将作为它的子节点）
+   * @param history 用户消息之前的对话路径
+   */
+  const generate = useCallback(async (
+    currentSession: ChatSession,
+    userMessage: ChatMessage,
+    history: ChatMessage[],
+    options?: SendOptions
   ) => {
+    // 记录发送时的会话，流式过程中切换会话也会写回原会话
+    const sessionId = currentSession.id;
+    const isFirstExchange = history.length === 0 && currentSession.title === DEFAULT_SESSION_TITLE;
+    const content = userMessage.content;
+    const attachments = userMessage.attachments;
+    // 只发送附件时，用文件名生成标题
+    const titleSource = content || attachments?.map(attachment => attachment.name).join('、') || '';
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const { signal } = controller;
+
     setIsLoading(true);
     setError(null);
+    failedRequestRef.current = null;
     setStreamingResponse('');
     setStreamingThinking('');
-    setExtractedUser(null);
-    setToolCallResult(null);
+    setStreamingToolCalls([]);
+    setStreamingToolDrafts([]);
 
-    addMessage('user', userMessage);
+    let response = '';
+    let thinking = '';
+    const toolCalls: ToolCallResult[] = [];
+    let citations: Citation[] = [];
+    let extraction: ExtractionResult | undefined;
+    let usage: TokenUsage | undefined;
+    let model = currentSession.model || undefined;
+    // 性能计时：首个思考或回答片段到达的时间为首字延迟
+    const startedAt = performance.now();
+    let firstTokenAt: number | undefined;
+    const markFirstToken = () => {
+      firstTokenAt ??= performance.now();
+    };
+    const knowledgeBaseIds = options?.knowledgeBaseIds;
 
-    try {
-      let response = '';
-      let thinking = '';
+    // 保存 assistant 消息，包含思考过程、工具调用、提取结果和引用来源
+    const saveAssistantMessage = (interrupted?: boolean) => {
+      addMessage(sessionId, {
+        role: 'assistant',
+        parentId: userMessage.id,
+        content: response,
+        thinking: thinking || undefined,
+        toolCall: toolCalls.length > 0 ? true : undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        extraction,
+        citations: citations.length > 0 ? citations : undefined,
+        usage,
+        metrics: buildMetrics({ startedAt, firstTokenAt, finishedAt: performance.now() }, usage, model),
+        interrupted,
+      });
+    };
 
+    // 多轮请求（工具调用、提取修正）的用量累加
+    const addUsage = (chunk: { usage?: TokenUsage; model?: string }) => {
+      model = chunk.model || model;
+      if (!chunk.usage) return;
+      const outputDurationMs = (usage?.outputDurationMs ?? 0) + (chunk.usage.outputDurationMs ?? 0);
+      usage = {
+        inputTokens: (usage?.inputTokens ?? 0) + chunk.usage.inputTokens,
+        outputTokens: (usage?.outputTokens ?? 0) + chunk.usage.outputTokens,
+        ...(outputDurationMs > 0 && { outputDurationMs }),
+      };
+    };
+
+    try {
       if (options?.useSmartTool) {
         // 智能工具调用模式 - 流式版本
         console.log('🤖 [Send Message] 智能工具调用模式（流式）');
-        const stream = smartChatStream(userMessage, options.systemPrompt);
+        const stream = smartChatStream(content, options.systemPrompt, {
+          history,
+          signal,
+          attachments,
+          knowledgeBaseIds,
+          enabledTools: options.enabledTools,
+        });
         for await (const chunk of stream) {
-          if (chunk.type === 'thinking') {
+          if (chunk.type === 'citations' && chunk.citations) {
+            citations = chunk.citations;
+          } else if (chunk.type === 'thinking') {
+            markFirstToken();
             thinking += chunk.content;
             setStreamingThinking(thinking);
           } else if (chunk.type === 'content') {
+            markFirstToken();
             response += chunk.content;
             setStreamingResponse(response);
+          } else if (chunk.type === 'tool_call_delta' && chunk.toolCallDraft) {
+            // 模型正在生成工具调用参数
+            markFirstToken();
+            const draft = chunk.toolCallDraft;
+            setStreamingToolDrafts(prev => [...prev.filter(item => item.index !== draft.index || item.id !== draft.id), draft]);
           } else if (chunk.type === 'tool_call' && chunk.toolCall) {
-            setToolCallResult(chunk.toolCall);
-            // 如果是用户信息提取，也设置到 extractedUser
-            if (chunk.toolCall.success && chunk.toolCall.toolName === 'extractUserInfo') {
-              setExtractedUser(chunk.toolCall.result as User);
-            }
-          }
-        }
-        // 获取最终结果
-        const final = await stream.next();
-        if (final.done && final.value?.toolCall) {
-          setToolCallResult(final.value.toolCall);
-          if (final.value.toolCall.success && final.value.toolCall.toolName === 'extractUserInfo') {
-            setExtractedUser(final.value.toolCall.result as User);
+            const { id } = chunk.toolCall;
+            toolCalls.push(chunk.toolCall);
+            setStreamingToolCalls([...toolCalls]);
+            setStreamingToolDrafts(prev => prev.filter(draft => draft.id !== id));
+          } else if (chunk.type === 'usage') {
+            addUsage(chunk);
           }
         }
       } else if (options?.useAgent) {
-        // Agent 模式：提取用户信息
+        // Agent 模式：按提取模板提取结构化数据
         console.log('🔍 [Send Message] Agent 模式');
-        const agentStream = executeAgentStream(userMessage);
-        for await (const chunk of agentStream) {
+        const agentStream = executeAgentStream(content, { history, signal, attachments, schema: options.extractionSchema });
+        // 手动迭代以取得生成器的返回值（for await 会丢弃返回值）
+        let next = await agentStream.next();
+        while (!next.done) {
+          const chunk = next.value;
           if (chunk.type === 'thinking') {
+            markFirstToken();
             thinking += chunk.content;
             setStreamingThinking(thinking);
-          } else {
+          } else if (chunk.type === 'content') {
+            markFirstToken();
             response += chunk.content;
             setStreamingResponse(response);
+          } else if (chunk.type === 'usage') {
+            addUsage(chunk);
           }
+          next = await agentStream.next();
         }
-        // 获取最终提取的用户信息
-        const final = await agentStream.next();
-        if (final.done && final.value?.result) {
-          setExtractedUser(final.value.result);
+        // 最终提取的结构化数据保存在消息中，正文使用提取摘要（流式输出的 JSON 由结果卡片展示）
+        if (next.value.result) {
+          extraction = next.value.result;
+          response = next.value.content;
         }
       } else if (options?.stream) {
         // 流式聊天模式
         console.log('🔍 [Send Message] 流式聊天模式');
-        const stream = chatStream(userMessage, options.systemPrompt);
+        const stream = chatStream(content, options.systemPrompt, { history, signal, attachments, knowledgeBaseIds });
         for await (const chunk of stream) {
-          if (chunk.type === 'thinking') {
+          if (chunk.type === 'citations' && chunk.citations) {
+            citations = chunk.citations;
+          } else if (chunk.type === 'thinking') {
+            markFirstToken();
             thinking += chunk.content;
             setStreamingThinking(thinking);
-          } else {
+          } else if (chunk.type === 'content') {
+            markFirstToken();
             response += chunk.content;
             setStreamingResponse(response);
+          } else if (chunk.type === 'usage') {
+            addUsage(chunk);
           }
         }
       } else {
         // 非流式模式
         console.log('🔍 [Send Message] 非流式模式');
-        const result = await sendMessage(userMessage, options?.systemPrompt);
+        const result = await sendMessage(content, options?.systemPrompt, { history, signal, attachments, knowledgeBaseIds });
         thinking = result.thinking || '';
         response = result.content;
+        citations = result.citations;
+        usage = result.usage;
+        model = result.model || model;
       }
 
-      // 完成后保存 assistant 消息，包含思考过程
-      addMessage('assistant', response, thinking);
+      saveAssistantMessage();
+
+      // 根据第一轮问答生成会话标题
+      if (isFirstExchange) {
+        generateTitle(titleSource, response)
+          .catch(() => fallbackTitle(titleSource))
+          .then(title => updateSession(sessionId, { title }));
+      }
       return response;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : '发生未知错误';
-      setError(errorMessage);
+      // 用户主动中断：保留已生成的部分内容并标记为已中断
+      if (isAbortError(err, signal)) {
+        console.log('⏹️ [Send Message] 生成已中断');
+        saveAssistantMessage(true);
+        if (isFirstExchange) {
+          updateSession(sessionId, { title: fallbackTitle(titleSource) });
+        }
+        return response;
+      }
+      failedRequestRef.current = { session: currentSession, userMessage, history, options };
+      setError(err instanceof ChatError
+        ? err
+        : new ChatError('unknown', err instanceof Error ? err.message : '发生未知错误', '请稍后重试。', err));
       throw err;
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
       setStreamingResponse('');
       setStreamingThinking('');
+      setStreamingToolCalls([]);
+      setStreamingToolDrafts([]);
     }
-  }, [addMessage]);
+  }, [addMessage, updateSession]);
 
-  // 清空聊天记录
+  // 发送新消息，接在当前分支的末尾
+  const sendMessageToAI = useCallback(async (userMessage: string, options?: SendOptions, attachments?: Attachment[]) => {
+    if (!session) return;
+    const parent = messages[messages.length - 1];
+    const message = addMessage(session.id, {
+      role: 'user',
+      content: userMessage,
+      parentId: parent?.id ?? null,
+      attachments: attachments?.length ? attachments : undefined,
+    });
+    return generate(session, message, messages, options);
+  }, [session, messages, addMessage, generate]);
+
+  // 重新生成某条回答：在同一条用户消息下生成新的分支
+  const regenerate = useCallback(async (messageId: string, options?: SendOptions) => {
+    if (!session) return;
+    const index = messages.findIndex(message => message.id === messageId);
+    const userMessage = messages[index - 1];
+    if (index < 1 || userMessage.role !== 'user') return;
+    // 生成期间先隐藏旧回答，失败时恢复
+    updateSession(session.id, { currentLeafId: userMessage.id });
+    try {
+      return await generate(session, userMessage, messages.slice(0, index - 1), options);
+    } catch (err) {
+      updateSession(session.id, { currentLeafId: session.currentLeafId });
+      throw err;
+    }
+  }, [session, messages, generate, updateSession]);
+
+  // 编辑某条用户消息并重新发送：在同一父节点下创建新的提问分支
+  const editMessage = useCallback(async (messageId: string, content: string, options?: SendOptions) => {
+    if (!session) return;
+    const index = messages.findIndex(message => message.id === messageId);
+    if (index < 0 || messages[index].role !== 'user') return;
+    // 编辑只修改文字，沿用原消息的附件
+    const message = addMessage(session.id, {
+      role: 'user',
+      content,
+      parentId: messages[index].parentId ?? null,
+      attachments: messages[index].attachments,
+    });
+    return generate(session, message, messages.slice(0, index), options);
+  }, [session, messages, addMessage, generate]);
+
+  // 切换到相邻的兄弟分支（offset 为 -1 / 1），并显示该分支上最新的对话
+  const switchBranch = useCallback((messageId: string, offset: number) => {
+    if (!session) return;
+    const message = allMessages.find(m => m.id === messageId);
+    if (!message) return;
+    const siblings = getSiblings(allMessages, message);
+    const target = siblings[siblings.findIndex(s => s.id === messageId) + offset];
+    if (target) {
+      updateSession(session.id, { currentLeafId: findLeaf(allMessages, target.id) });
+    }
+  }, [session, allMessages, updateSession]);
+
+  // 重试最近一次失败的生成：在同一条用户消息下重新生成回答
+  const retry = useCallback(async () => {
+    const failed = failedRequestRef.current;
+    if (!failed) return;
+    const currentSession = session?.id === failed.session.id ? session : failed.session;
+    return generate(currentSession, failed.userMessage, failed.history, failed.options);
+  }, [session, generate]);
+
+  // 清空当前会话的聊天记录
   const clearMessages = useCallback(() => {
-    setMessages([]);
+    if (session) {
+      updateSession(session.id, { messages: [], currentLeafId: null });
+    }
+    failedRequestRef.current = null;
     setError(null);
-  }, []);
+  }, [session, updateSession]);
+
+  // 用户在结果卡片中修正字段后重新校验，并写回对应的消息
+  const updateExtraction = useCallback((messageId: string, data: Record<string, unknown>) => {
+    if (!session) return;
+    updateSession(session.id, prev => ({
+      messages: prev.messages.map(message => (
+        message.id === messageId && message.extraction
+          ? { ...message, extraction: revalidateExtraction(message.extraction, data) }
+          : message
+      )),
+    }));
+  }, [session, updateSession]);
 
   return {
     messages,
+    branches,
     isLoading,
     error,
     streamingResponse,
     streamingThinking,
-    extractedUser,
-    toolCallResult,
+    streamingToolCalls,
+    streamingToolDrafts,
+    updateExtraction,
     sendMessage: sendMessageToAI,
+    stopGeneration,
+    retry,
+    regenerate,
+    editMessage,
+    switchBranch,
     clearMessages,
   };
 };
@@ -0,0 +1,42 @@
+import { useState, useCallback, useEffect } from 'react';
+import { checkHealth, type HealthStatus } from '../lib/health';
+import type { OllamaConfig } from '../types';
+
+// 定期检查的间隔
+const HEALTH_INTERVAL = 30000;
+
+/**
+ * 模型服务连接状态 Hook
+ * 服务配置或模型变化时立即检查，之后每 30 秒检查一次
+ */
+export const useHealth = (config: Pick<OllamaConfig, 'provider' | 'baseUrl' | 'apiKey'>, model: string) => {
+  const { provider, baseUrl, apiKey } = config;
+  const [health, setHealth] = useState<HealthStatus>({ state: 'checking', checkedAt: 0 });
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const run = async () => {
+      const status = await checkHealth({ provider, baseUrl, apiKey }, model);
+      if (!cancelled) {
+        setHealth(status);
+      }
+    };
+
+    run();
+    const timer = setInterval(run, HEALTH_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [provider, baseUrl, apiKey, model, version]);
+
+  // 立即重新检查
+  const recheck = useCallback(() => {
+    setHealth(prev => ({ ...prev, state: 'checking' }));
+    setVersion(v => v + 1);
+  }, []);
+
+  return { health, recheck };
+};
@@ -0,0 +1,28 @@
+import { useState, useCallback, useEffect } from 'react';
+import { listKnowledgeBases } from '../lib/knowledge';
+import type { KnowledgeBase } from '../types';
+
+/**
+ * 知识库列表 Hook
+ * 知识库保存在 IndexedDB 中，增删文档后调用 refresh 重新读取
+ */
+export const useKnowledgeBases = () => {
+  const [knowledgeBases, setKnowledgeBases] = useState<KnowledgeBase[]>([]);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    listKnowledgeBases()
+      .then(list => {
+        if (!cancelled) setKnowledgeBases(list);
+      })
+      .catch(err => console.error('❌ [Knowledge] 读取知识库失败:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  return { knowledgeBases, refresh };
+};
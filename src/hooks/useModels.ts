@@ -0,0 +1,69 @@
+import { useState, useCallback, useEffect } from 'react';
+import { showModel, type OllamaModel } from '../lib/ollamaApi';
+import { listProviderModels } from '../lib/providers';
+import type { OllamaConfig } from '../types';
+
+/**
+ * 可用模型列表 Hook
+ * Ollama 从 /api/tags 读取模型列表，再通过 /api/show 补充上下文长度与能力信息；
+ * 其他服务只读取模型名称
+ */
+export const useModels = (config: Pick<OllamaConfig, 'provider' | 'baseUrl' | 'apiKey'>) => {
+  const { provider, baseUrl, apiKey } = config;
+  const [models, setModels] = useState<OllamaModel[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const list = await listProviderModels({ provider, baseUrl, apiKey }, controller.signal);
+        setModels(list);
+        setError(null);
+        if (provider !== 'ollama') return;
+
+        // 详情逐个补充，单个模型失败不影响列表展示
+        const details = await Promise.allSettled(
+          list.map(model => showModel(baseUrl, model.name, controller.signal))
+        );
+        if (controller.signal.aborted) return;
+        setModels(list.map((model, index) => {
+          const detail = details[index];
+          if (detail.status !== 'fulfilled') return model;
+          const { family, parameterSize, quantization, contextLength, capabilities } = detail.value;
+          return {
+            ...model,
+            family: family ?? model.family,
+            parameterSize: parameterSize ?? model.parameterSize,
+            quantization: quantization ?? model.quantization,
+            contextLength,
+            capabilities,
+          };
+        }));
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('❌ [Models] 获取模型列表失败:', err);
+        setModels([]);
+        setError(err instanceof Error ? err.message : '获取模型列表失败');
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [provider, baseUrl, apiKey, version]);
+
+  // 重新加载模型列表（拉取或删除模型后调用）
+  const refresh = useCallback(() => {
+    setIsLoading(true);
+    setVersion(v => v + 1);
+  }, []);
+
+  return { models, isLoading, error, refresh };
+};
@@ -0,0 +1,141 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { ChatSession } from '../types';
+import { createSession, listSessions, removeSession, saveSession } from '../lib/sessionStore';
+
+const ACTIVE_SESSION_KEY = 'activeSessionId';
+
+// 会话更新函数：支持直接传入变更或基于当前会话计算变更
+export type UpdateSession = (
+  id: string,
+  patch: Partial<ChatSession> | ((session: ChatSession) => Partial<ChatSession>)
+) => void;
+
+/**
+ * 多会话管理 Hook
+ * 负责会话的加载、创建、导入、切换、重命名、删除，所有修改同步写入 IndexedDB
+ */
+export const useSessions = (defaults: { model: string; systemPrompt?: string }) => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // 最新的会话列表，更新会话时基于它计算变更，避免在 setSessions 的更新函数中产生副作用
+  const sessionsRef = useRef<ChatSession[]>([]);
+  // 首次加载时新建会话使用的默认设置
+  const defaultsRef = useRef(defaults);
+
+  useEffect(() => {
+    defaultsRef.current = defaults;
+  });
+
+  const commitSessions = useCallback((next: ChatSession[]) => {
+    sessionsRef.current = next;
+    setSessions(next);
+  }, []);
+
+  // 首次加载：读取已保存的会话，没有则创建一个
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      let loaded: ChatSession[] = [];
+      try {
+        loaded = await listSessions();
+      } catch (error) {
+        console.error('❌ [Sessions] 读取会话失败:', error);
+      }
+      if (cancelled) return;
+
+      if (loaded.length === 0) {
+        const { model, systemPrompt } = defaultsRef.current;
+        const session = createSession({ model, systemPrompt: systemPrompt ?? '' });
+        loaded = [session];
+        saveSession(session).catch(error => console.error('❌ [Sessions] 保存会话失败:', error));
+      }
+
+      const savedActiveId = localStorage.getItem(ACTIVE_SESSION_KEY);
+      const activeId = loaded.some(s => s.id === savedActiveId) ? savedActiveId! : loaded[0].id;
+
+      commitSessions(loaded);
+      setActiveSessionId(activeId);
+      setIsLoaded(true);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [commitSessions]);
+
+  useEffect(() => {
+    if (activeSessionId) {
+      localStorage.setItem(ACTIVE_SESSION_KEY, activeSessionId);
+    }
+  }, [activeSessionId]);
+
+  const activeSession = sessions.find(s => s.id === activeSessionId) ?? null;
+
+  // 更新会话并持久化
+  const updateSession = useCallback<UpdateSession>((id, patch) => {
+    const session = sessionsRef.current.find(s => s.id === id);
+    if (!session) return;
+
+    const changes = typeof patch === 'function' ? patch(session) : patch;
+    const updated = { ...session, ...changes, updatedAt: Date.now() };
+    commitSessions(sessionsRef.current.map(s => (s.id === id ? updated : s)));
+    saveSession(updated).catch(error => console.error('❌ [Sessions] 保存会话失败:', error));
+  }, [commitSessions]);
+
+  // 新建会话并切换过去
+  const newSession = useCallback((partial?: Partial<ChatSession>) => {
+    const session = createSession({ model: defaults.model, systemPrompt: defaults.systemPrompt ?? '', ...partial });
+    commitSessions([session, ...sessionsRef.current]);
+    setActiveSessionId(session.id);
+    saveSession(session).catch(error => console.error('❌ [Sessions] 保存会话失败:', error));
+    return session;
+  }, [defaults.model, defaults.systemPrompt, commitSessions]);
+
+  // 添加导入的会话并切换到第一个
+  const importSessions = useCallback((imported: ChatSession[]) => {
+    if (imported.length === 0) return;
+    commitSessions([...imported, ...sessionsRef.current]);
+    setActiveSessionId(imported[0].id);
+    for (const session of imported) {
+      saveSession(session).catch(error => console.error('❌ [Sessions] 保存会话失败:', error));
+    }
+  }, [commitSessions]);
+
+  const renameSession = useCallback((id: string, title: string) => {
+    updateSession(id, { title });
+  }, [updateSession]);
+
+  // 删除会话；删除当前会话时切换到下一个，全部删除后自动新建
+  const deleteSession = useCallback((id: string) => {
+    removeSession(id).catch(error => console.error('❌ [Sessions] 删除会话失败:', error));
+
+    const remaining = sessionsRef.current.filter(s => s.id !== id);
+    if (remaining.length === 0) {
+      const session = createSession({ model: defaults.model, systemPrompt: defaults.systemPrompt ?? '' });
+      saveSession(session).catch(error => console.error('❌ [Sessions] 保存会话失败:', error));
+      commitSessions([session]);
+      setActiveSessionId(session.id);
+      return;
+    }
+
+    commitSessions(remaining);
+    if (id === activeSessionId) {
+      setActiveSessionId(remaining[0].id);
+    }
+  }, [activeSessionId, defaults.model, defaults.systemPrompt, commitSessions]);
+
+  return {
+    sessions,
+    activeSession,
+    isLoaded,
+    switchSession: setActiveSessionId,
+    newSession,
+    importSessions,
+    renameSession,
+    deleteSession,
+    updateSession,
+  };
+};
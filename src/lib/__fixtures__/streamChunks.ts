@@ -0,0 +1,192 @@
+/**
+ * 流式响应解析的测试数据
+ * chunks 为各服务返回的消息块（按 AIMessageChunk 的字段记录），expected 为解析器应输出的全部 StreamChunk
+ */
+import type { RawStreamChunk, StreamChunk } from '../streamParser';
+
+export interface StreamFixture {
+  name: string;
+  chunks: RawStreamChunk[];
+  expected: StreamChunk[];
+}
+
+export const STREAM_FIXTURES: StreamFixture[] = [
+  {
+    name: '<think> 标签被拆到多个块中',
+    chunks: [
+      { content: '<thi' },
+      { content: 'nk>\n让我想想' },
+      { content: '</th' },
+      { content: 'ink>\n\n答案是 42' },
+    ],
+    expected: [
+      { type: 'thinking', content: '让我想想' },
+      { type: 'content', content: '答案是 42' },
+    ],
+  },
+  {
+    name: '同一块中包含完整的思考和回答',
+    chunks: [
+      { content: '<think>先算 6 × 7</think>答案' },
+      { content: '是 42' },
+    ],
+    expected: [
+      { type: 'thinking', content: '先算 6 × 7' },
+      { type: 'content', content: '答案' },
+      { type: 'content', content: '是 42' },
+    ],
+  },
+  {
+    name: '流结束时未组成标签的 <thi 按原样输出',
+    chunks: [
+      { content: '比较运算符 a ' },
+      { content: '<thi' },
+    ],
+    expected: [
+      { type: 'content', content: '比较运算符 a ' },
+      { type: 'content', content: '<thi' },
+    ],
+  },
+  {
+    name: '后续工具调用增量只带序号',
+    chunks: [
+      { content: '', tool_call_chunks: [{ name: 'getWeather', id: 'call_1', index: 0, args: '' }] },
+      { content: '', tool_call_chunks: [{ index: 0, args: '{"city":' }] },
+      { content: '', tool_call_chunks: [{ index: 0, args: '"北京"}' }] },
+    ],
+    expected: [
+      {
+        type: 'tool_call_delta',
+        content: '',
+        toolCallDraft: { index: 0, id: 'call_1', name: 'getWeather', args: '' },
+      },
+      {
+        type: 'tool_call_delta',
+        content: '{"city":',
+        toolCallDraft: { index: 0, id: 'call_1', name: 'getWeather', args: '{"city":' },
+      },
+      {
+        type: 'tool_call_delta',
+        content: '"北京"}',
+        toolCallDraft: { index: 0, id: 'call_1', name: 'getWeather', args: '{"city":"北京"}' },
+      },
+    ],
+  },
+  {
+    name: '并行工具调用的增量交错返回',
+    chunks: [
+      {
+        content: '',
+        tool_call_chunks: [
+          { name: 'getWeather', id: 'call_1', index: 0, args: '{"city":"北京"}' },
+          { name: 'getAirQuality', id: 'call_2', index: 1, args: '{"city":' },
+        ],
+      },
+      { content: '', tool_call_chunks: [{ index: 1, args: '"上海"}' }] },
+    ],
+    expected: [
+      {
+        type: 'tool_call_delta',
+        content: '{"city":"北京"}',
+        toolCallDraft: { index: 0, id: 'call_1', name: 'getWeather', args: '{"city":"北京"}' },
+      },
+      {
+        type: 'tool_call_delta',
+        content: '{"city":',
+        toolCallDraft: { index: 1, id: 'call_2', name: 'getAirQuality', args: '{"city":' },
+      },
+      {
+        type: 'tool_call_delta',
+        content: '"上海"}',
+        toolCallDraft: { index: 1, id: 'call_2', name: 'getAirQuality', args: '{"city":"上海"}' },
+      },
+    ],
+  },
+  {
+    name: 'Ollama 只返回 eval_count 时读取 response_metadata',
+    chunks: [
+      { content: '你好' },
+      {
+        content: '',
+        response_metadata: { model: 'qwen3:8b', prompt_eval_count: 12, eval_count: 34, eval_duration: 2_000_000_000 },
+      },
+    ],
+    expected: [
+      { type: 'content', content: '你好' },
+      {
+        type: 'usage',
+        content: '',
+        usage: { inputTokens: 12, outputTokens: 34, outputDurationMs: 2000 },
+        model: 'qwen3:8b',
+      },
+    ],
+  },
+  {
+    name: 'usage_metadata 优先于 Ollama 的 eval_count',
+    chunks: [
+      { content: '你好' },
+      {
+        content: '',
+        usage_metadata: { input_tokens: 10, output_tokens: 20 },
+        response_metadata: { model: 'qwen3:8b', prompt_eval_count: 99, eval_count: 99, eval_duration: 500_000_000 },
+      },
+    ],
+    expected: [
+      { type: 'content', content: '你好' },
+      {
+        type: 'usage',
+        content: '',
+        usage: { inputTokens: 10, outputTokens: 20, outputDurationMs: 500 },
+        model: 'qwen3:8b',
+      },
+    ],
+  },
+  {
+    name: 'content 为 Ollama 原生接口的响应行',
+    chunks: [
+      { content: '{"model":"qwen3:8b","message":{"role":"assistant","content":"","thinking":"嗯"},"done":false}' },
+      { content: '{"model":"qwen3:8b","message":{"role":"assistant","content":"你好"},"done":true,"prompt_eval_count":5,"eval_count":7}' },
+    ],
+    expected: [
+      { type: 'thinking', content: '嗯' },
+      { type: 'content', content: '你好' },
+      { type: 'usage', content: '', usage: { inputTokens: 5, outputTokens: 7 } },
+    ],
+  },
+  {
+    name: '模型输出的其他 JSON 视为正文',
+    chunks: [{ content: '{"model":"x","name":"张三"}' }],
+    expected: [{ type: 'content', content: '{"model":"x","name":"张三"}' }],
+  },
+  {
+    name: 'Anthropic 的思考内容块和分开统计的用量',
+    chunks: [
+      { content: [{ type: 'thinking', thinking: '先分析问题' }], usage_metadata: { input_tokens: 50, output_tokens: 0 } },
+      { content: [{ type: 'thinking', thinking: '，再给结论' }] },
+      { content: [{ type: 'text', text: '结论是可行' }] },
+      { content: '', usage_metadata: { input_tokens: 0, output_tokens: 8 }, response_metadata: { model: 'claude-sonnet-4-5' } },
+    ],
+    expected: [
+      { type: 'thinking', content: '先分析问题' },
+      { type: 'thinking', content: '，再给结论' },
+      { type: 'content', content: '结论是可行' },
+      { type: 'usage', content: '', usage: { inputTokens: 50, outputTokens: 8 }, model: 'claude-sonnet-4-5' },
+    ],
+  },
+  {
+    name: 'reasoning_content 字段中的思考内容',
+    chunks: [
+      { content: '', additional_kwargs: { reasoning_content: '思考中' } },
+      {
+        content: '',
+        additional_kwargs: { __raw_response: { choices: [{ delta: { reasoning_content: '继续思考' } }] } },
+      },
+      { content: '回答' },
+    ],
+    expected: [
+      { type: 'thinking', content: '思考中' },
+      { type: 'thinking', content: '继续思考' },
+      { type: 'content', content: '回答' },
+    ],
+  },
+];
@@ -0,0 +1,122 @@
+/**
+ * 消息附件处理
+ * 图片压缩为 data URL，文本与 PDF 文件提取文字，供 memory.ts 组装多模态消息
+ */
+import type { Attachment } from '../types';
+
+// 单个文件大小上限
+export const MAX_FILE_SIZE = 20 * 1024 * 1024;
+// 图片最长边，超过时等比缩小（视觉模型内部也会缩放，更大的图片只会增加传输和存储）
+const MAX_IMAGE_DIMENSION = 1568;
+// 单个文档保存的最大字符数
+const MAX_DOCUMENT_CHARS = 100_000;
+// 文档分段长度（字符）
+const CHUNK_CHARS = 2000;
+
+// 按扩展名识别的文本文件（部分文件的 MIME 类型为空）
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|jsonl|ya?ml|xml|html?|css|log|ini|toml|sql|sh|py|js|jsx|ts|tsx|java|go|rs|c|cc|cpp|h|hpp|cs|rb|php|swift|kt|vue)$/i;
+
+const isImage = (file: File) => file.type.startsWith('image/');
+const isPdf = (file: File) => file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+const isText = (file: File) => file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.test(file.name);
+
+/**
+ * 是否为支持的附件类型
+ */
+export const isSupportedFile = (file: File): boolean => isImage(file) || isPdf(file) || isText(file);
+
+/**
+ * 读取图片并压缩为 JPEG / PNG data URL
+ */
+const readImage = async (file: File): Promise<string> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  // PNG 保留透明背景，其余格式统一转为 JPEG 减小体积
+  return file.type === 'image/png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', 0.85);
+};
+
+/**
+ * 提取 PDF 中的文字（按需加载 pdf.js，避免增大首屏体积）
+ */
+const readPdf = async (file: File, maxChars: number): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  const { default: workerUrl } = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    pages.push(content.items.map(item => ('str' in item ? item.str : '')).join(' '));
+    if (pages.join('\n').length > maxChars) break;
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
+
+/**
+ * 是否为可提取文字的文档（PDF 或文本文件）
+ */
+export const isDocumentFile = (file: File): boolean => isPdf(file) || isText(file);
+
+/**
+ * 提取文档文字，没有可提取的文字时抛出错误
+ */
+export const readDocumentText = async (file: File, maxChars = MAX_DOCUMENT_CHARS): Promise<string> => {
+  const text = (isPdf(file) ? await readPdf(file, maxChars) : await file.text()).trim();
+  if (!text) {
+    throw new Error(`${file.name} 中没有可提取的文字`);
+  }
+  return text;
+};
+
+/**
+ * 读取文件为附件，不支持或读取失败时抛出错误
+ */
+export const readAttachment = async (file: File): Promise<Attachment> => {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`${file.name} 超过 ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+  }
+  const base = { id: crypto.randomUUID(), name: file.name || '粘贴的图片', mimeType: file.type, size: file.size };
+
+  if (isImage(file)) {
+    return { ...base, kind: 'image', dataUrl: await readImage(file) };
+  }
+  if (isDocumentFile(file)) {
+    const text = await readDocumentText(file);
+    return {
+      ...base,
+      kind: 'document',
+      text: text.slice(0, MAX_DOCUMENT_CHARS),
+      truncated: text.length > MAX_DOCUMENT_CHARS || undefined,
+    };
+  }
+  throw new Error(`不支持的文件类型: ${file.name}`);
+};
+
+/**
+ * 将文档按段落切分为不超过 size 个字符的片段
+ */
+export const chunkText = (text: string, size = CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n{2,}/)) {
+    // 超长段落按长度硬切
+    for (let i = 0; i < paragraph.length; i += size) {
+      const piece = paragraph.slice(i, i + size);
+      if (current && current.length + piece.length + 2 > size) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+};
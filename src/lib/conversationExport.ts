@@ -0,0 +1,253 @@
+import { createElement } from 'react';
+import ReactMarkdown, { type Options } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { ChatMessage, ChatSession, OllamaConfig, ToolCallResult } from '../types';
+import { getTool } from '../tools';
+import { downloadFile } from './download';
+import { MARKDOWN_SANITIZE_SCHEMA } from './markdown';
+import { getActivePath } from './messageTree';
+
+/**
+ * 对话导出
+ * Markdown / HTML 导出当前分支，便于阅读和分享；JSON 导出完整会话（含所有分支、思考过程、工具调用和模型配置），可以无损导入
+ */
+
+export const EXPORT_FORMAT = 'g-ai-chat.conversation';
+export const EXPORT_VERSION = 1;
+
+// JSON 导出格式
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  config?: OllamaConfig; // 导出时的模型配置（API Key 不导出）
+  sessions: ChatSession[];
+}
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+const ROLE_LABELS: Record<ChatMessage['role'], string> = {
+  user: '👤 用户',
+  assistant: '🤖 助手',
+  system: '⚙️ 系统',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const toolTitle = (call: ToolCallResult) => getTool(call.toolName)?.title ?? call.toolName;
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+/**
+ * 导出为 JSON（完整会话）
+ */
+export const exportJson = (session: ChatSession, config?: OllamaConfig): string => {
+  const data: ConversationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    config: config && { ...config, apiKey: undefined },
+    sessions: [session],
+  };
+  return toJson(data);
+};
+
+// 包住内容的代码块围栏：比内容中最长的连续反引号多一个
+const fenceFor = (text: string) => '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map(ticks => ticks.length + 1)));
+
+const codeBlock = (text: string, language = '') => {
+  const fence = fenceFor(text);
+  return `${fence}${language}\n${text}\n${fence}`;
+};
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+const messageToMarkdown = (message: ChatMessage): string => {
+  const parts = [`### ${ROLE_LABELS[message.role]} · ${formatTime(message.timestamp)}`];
+
+  if (message.thinking) {
+    parts.push(`<details>\n<summary>💭 思考过程</summary>\n\n${quote(message.thinking)}\n\n</details>`);
+  }
+  for (const call of message.toolCalls ?? []) {
+    parts.push([
+      `**🔧 ${toolTitle(call)}** ${call.success ? '✅' : '❌'}`,
+      '参数：',
+      codeBlock(toJson(call.args ?? {}), 'json'),
+      call.success ? '结果：' : '错误：',
+      call.success ? codeBlock(toJson(call.result ?? null), 'json') : codeBlock(call.error ?? ''),
+    ].join('\n\n'));
+  }
+  if (message.extraction) {
+    parts.push(`**📋 ${message.extraction.schemaName}**\n\n${codeBlock(toJson(message.extraction.data), 'json')}`);
+  }
+  if (message.attachments?.length) {
+    parts.push(`📎 附件：${message.attachments.map(attachment => attachment.name).join('、')}`);
+  }
+  if (message.content) {
+    parts.push(message.content);
+  }
+  if (message.citations?.length) {
+    parts.push(message.citations
+      .map(citation => `> [${citation.index}] ${citation.knowledgeBaseName} / ${citation.documentName}`)
+      .join('\n'));
+  }
+  if (message.interrupted) {
+    parts.push('*（已中断）*');
+  }
+  return parts.join('\n\n');
+};
+
+// 会话信息：模型、系统提示词和时间
+const describeSession = (session: ChatSession, config?: OllamaConfig) => ({
+  model: session.model || config?.model,
+  provider: config?.provider,
+  temperature: session.sampling?.temperature ?? config?.temperature,
+  systemPrompt: session.systemPrompt,
+  createdAt: formatTime(session.createdAt),
+});
+
+/**
+ * 导出为 Markdown（当前分支）
+ */
+export const exportMarkdown = (session: ChatSession, config?: OllamaConfig): string => {
+  const info = describeSession(session, config);
+  const header = [
+    `# ${session.title}`,
+    [
+      info.model && `- 模型：${info.model}${info.provider ? `（${info.provider}）` : ''}`,
+      info.temperature !== undefined && `- Temperature：${info.temperature}`,
+      `- 创建时间：${info.createdAt}`,
+      `- 导出时间：${formatTime(Date.now())}`,
+    ].filter(Boolean).join('\n'),
+    info.systemPrompt && `**系统提示词：**\n\n${quote(info.systemPrompt)}`,
+  ].filter(Boolean);
+
+  const messages = getActivePath(session.messages, session.currentLeafId).map(messageToMarkdown);
+  return [...header, '---', ...messages].join('\n\n') + '\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+// 导出页面的样式：公式输出为 MathML，不依赖 KaTeX 的样式和字体
+const HTML_STYLE = `
+body { max-width: 860px; margin: 2rem auto; padding: 0 1rem; font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.7; color: #2d3748; }
+header { border-bottom: 1px solid #e2e8f0; margin-bottom: 1.5rem; }
+header ul { padding-left: 1.25rem; color: #718096; font-size: 0.9rem; }
+.message { margin: 1rem 0; padding: 1rem 1.25rem; border-radius: 12px; border: 1px solid #e2e8f0; }
+.message.user { background: #f0f4ff; }
+.message h3 { margin: 0 0 0.5rem; font-size: 0.9rem; color: #667eea; }
+.message h3 time { margin-left: 0.5rem; color: #a0aec0; font-weight: normal; }
+details { margin: 0.5rem 0; padding: 0.5rem 0.75rem; border-radius: 8px; background: #f7fafc; font-size: 0.9rem; }
+details .thinking { white-space: pre-wrap; color: #718096; }
+pre { overflow-x: auto; padding: 0.75rem; border-radius: 8px; background: #f6f8fa; font-size: 0.85rem; }
+table { border-collapse: collapse; } th, td { border: 1px solid #e2e8f0; padding: 0.3rem 0.6rem; }
+img { max-width: 100%; border-radius: 8px; }
+blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid #cbd5e0; color: #718096; }
+.hljs-keyword, .hljs-selector-tag, .hljs-built_in { color: #d73a49; }
+.hljs-string, .hljs-attr { color: #032f62; }
+.hljs-number, .hljs-literal { color: #005cc5; }
+.hljs-comment { color: #6a737d; font-style: italic; }
+.hljs-title, .hljs-function { color: #6f42c1; }
+`;
+
+/**
+ * 导出为 HTML（当前分支）
+ * 单个文件包含样式和图片，Markdown 按应用中相同的规则渲染和清洗
+ */
+export const exportHtml = async (session: ChatSession, config?: OllamaConfig): Promise<string> => {
+  // 只在导出时加载服务端渲染
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const remarkPlugins: Options['remarkPlugins'] = [remarkGfm, remarkMath];
+  const rehypePlugins: Options['rehypePlugins'] = [
+    [rehypeSanitize, MARKDOWN_SANITIZE_SCHEMA],
+    [rehypeKatex, { output: 'mathml' }],
+    [rehypeHighlight, { detect: true }],
+  ];
+  const renderMarkdown = (markdown: string) =>
+    renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins, rehypePlugins }, markdown));
+
+  const renderMessage = (message: ChatMessage) => {
+    const parts: string[] = [];
+    if (message.thinking) {
+      parts.push(`<details><summary>💭 思考过程</summary><div class="thinking">${escapeHtml(message.thinking)}</div></details>`);
+    }
+    for (const call of message.toolCalls ?? []) {
+      parts.push(
+        `<details><summary>🔧 ${escapeHtml(toolTitle(call))} ${call.success ? '✅' : '❌'}</summary>` +
+        `<p>参数：</p><pre>${escapeHtml(toJson(call.args ?? {}))}</pre>` +
+        `<p>${call.success ? '结果' : '错误'}：</p><pre>${escapeHtml(call.success ? toJson(call.result ?? null) : call.error ?? '')}</pre></details>`
+      );
+    }
+    if (message.extraction) {
+      parts.push(
+        `<details open><summary>📋 ${escapeHtml(message.extraction.schemaName)}</summary>` +
+        `<pre>${escapeHtml(toJson(message.extraction.data))}</pre></details>`
+      );
+    }
+    for (const attachment of message.attachments ?? []) {
+      parts.push(attachment.dataUrl
+        ? `<img src="${escapeHtml(attachment.dataUrl)}" alt="${escapeHtml(attachment.name)}">`
+        : `<p>📎 ${escapeHtml(attachment.name)}</p>`);
+    }
+    if (message.content) {
+      parts.push(message.role === 'assistant'
+        ? renderMarkdown(message.content)
+        : `<p style="white-space: pre-wrap">${escapeHtml(message.content)}</p>`);
+    }
+    if (message.citations?.length) {
+      parts.push(`<blockquote>${message.citations
+        .map(citation => `[${citation.index}] ${escapeHtml(citation.knowledgeBaseName)} / ${escapeHtml(citation.documentName)}`)
+        .join('<br>')}</blockquote>`);
+    }
+    return `<section class="message ${message.role}">` +
+      `<h3>${ROLE_LABELS[message.role]}<time>${formatTime(message.timestamp)}</time>${message.interrupted ? ' ⏹ 已中断' : ''}</h3>` +
+      `${parts.join('\n')}</section>`;
+  };
+
+  const info = describeSession(session, config);
+  const meta = [
+    info.model && `<li>模型：${escapeHtml(info.model)}</li>`,
+    `<li>创建时间：${info.createdAt}</li>`,
+    `<li>导出时间：${formatTime(Date.now())}</li>`,
+    info.systemPrompt && `<li>系统提示词：${escapeHtml(info.systemPrompt)}</li>`,
+  ].filter(Boolean).join('');
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(session.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header><h1>${escapeHtml(session.title)}</h1><ul>${meta}</ul></header>
+${getActivePath(session.messages, session.currentLeafId).map(renderMessage).join('\n')}
+</body>
+</html>
+`;
+};
+
+const EXPORTERS: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+/**
+ * 导出会话并下载为文件
+ */
+export const downloadConversation = async (session: ChatSession, format: ExportFormat, config?: OllamaConfig) => {
+  const content = format === 'markdown'
+    ? exportMarkdown(session, config)
+    : format === 'html'
+      ? await exportHtml(session, config)
+      : exportJson(session, config);
+  const { extension, mimeType } = EXPORTERS[format];
+  downloadFile(`${session.title}.${extension}`, content, mimeType);
+};
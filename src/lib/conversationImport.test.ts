@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { getActivePath } from './messageTree';
+import { EXPORT_FORMAT } from './conversationExport';
+import { parseConversationFile } from './conversationImport';
+
+const appExport = (messages: unknown[], currentLeafId: string | null) => JSON.stringify({
+  format: EXPORT_FORMAT,
+  version: 1,
+  sessions: [{ id: 'old', title: '导入测试', messages, currentLeafId }],
+});
+
+describe('parseConversationFile', () => {
+  it('本应用导出的会话使用新的 ID', () => {
+    const [session] = parseConversationFile(appExport([
+      { id: 'a', parentId: null, role: 'user', content: '你好', timestamp: 1 },
+      { id: 'b', parentId: 'a', role: 'assistant', content: '你好！', timestamp: 2 },
+    ], 'b'));
+    expect(session.id).not.toBe('old');
+    expect(getActivePath(session.messages, session.currentLeafId).map(message => message.content)).toEqual(['你好', '你好！']);
+  });
+
+  it('丢弃格式错误的消息，断开 parentId 形成的环', () => {
+    const [session] = parseConversationFile(appExport([
+      { id: 'a', parentId: 'b', role: 'user', content: '问题', timestamp: 1 },
+      { id: 'b', parentId: 'a', role: 'assistant', content: '回答', timestamp: 2 },
+      { id: 'c', parentId: 'b', role: 'tool', content: '未知角色', timestamp: 3 },
+      { id: 'd', parentId: 'b', role: 'user', content: 123, timestamp: 4 },
+      { id: 'b', parentId: null, role: 'user', content: '重复的 ID', timestamp: 5 },
+    ], 'missing'));
+    expect(session.messages.map(message => [message.id, message.parentId])).toEqual([['a', null], ['b', 'a']]);
+    expect(session.currentLeafId).toBe('b');
+  });
+
+  it('丢弃结构错误的工具结果、提取结果和未知的会话字段', () => {
+    const extraction = { schemaId: 'user', schemaName: '用户信息', jsonSchema: {}, data: { name: '张三' } };
+    const [session] = parseConversationFile(JSON.stringify({
+      format: EXPORT_FORMAT,
+      version: 1,
+      sessions: [{
+        title: '导入测试',
+        model: 42,
+        unknownField: '不应导入',
+        currentLeafId: 'b',
+        messages: [
+          { id: 'a', parentId: null, role: 'user', content: '北京天气', timestamp: 1, isStreaming: true },
+          {
+            id: 'b',
+            parentId: 'a',
+            role: 'assistant',
+            content: '晴',
+            timestamp: 2,
+            toolCalls: [
+              { toolName: 'getWeather', success: true, result: {} },
+              { toolName: 'getWeather', success: false, error: '查询失败' },
+              { toolName: 'extractStructuredData', success: true, result: extraction },
+            ],
+            extraction: { schemaName: '用户信息', data: null },
+            usage: { inputTokens: '10', outputTokens: 5 },
+          },
+        ],
+      }],
+    }));
+    expect(session).not.toHaveProperty('unknownField');
+    expect(session.model).toBe('');
+    expect(session.messages[0]).not.toHaveProperty('isStreaming');
+    const [, answer] = session.messages;
+    expect(answer.toolCalls).toEqual([
+      { toolName: 'getWeather', success: false, error: '查询失败' },
+      { toolName: 'extractStructuredData', success: true, result: extraction },
+    ]);
+    expect(answer).not.toHaveProperty('extraction');
+    expect(answer).not.toHaveProperty('usage');
+  });
+
+  it('ChatGPT 导出的节点形成环时正常导入', () => {
+    const [session] = parseConversationFile(JSON.stringify([{
+      title: 'ChatGPT',
+      current_node: 'b',
+      mapping: {
+        a: { parent: 'b', message: { author: { role: 'user' }, content: { parts: ['问题'] }, create_time: 1 } },
+        b: { parent: 'a', message: { author: { role: 'assistant' }, content: { parts: ['回答'] }, create_time: 2 } },
+      },
+    }]));
+    expect(getActivePath(session.messages, session.currentLeafId).map(message => message.content)).toEqual(['问题', '回答']);
+  });
+});
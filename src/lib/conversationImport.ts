@@ -0,0 +1,318 @@
+import { z } from 'zod';
+import type { Attachment, ChatMessage, ChatSession, Citation, SamplingOptions, ToolCallResult } from '../types';
+import { isValidToolResult } from '../tools';
+import { ExtractionResultSchema } from '../tools/resultSchemas';
+import { EXPORT_FORMAT } from './conversationExport';
+import { breakCycles, findLeaf, normalizeSessionTree } from './messageTree';
+import { createSession, DEFAULT_SESSION_TITLE } from './sessionStore';
+
+/**
+ * 对话导入
+ * 支持本应用导出的 JSON，以及 ChatGPT（conversations.json）和 Open WebUI 的导出文件；
+ * 外部格式只导入用户和助手的文字消息，保留分支结构，会话使用当前配置的模型
+ */
+
+// 外部格式转换后的消息节点，parentId 指向原文件中的父节点（可能是被跳过的节点）
+interface ImportedNode {
+  id: string;
+  parentId: string | null;
+  role: string;
+  content: string;
+  timestamp?: number; // 毫秒
+  thinking?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// 外部格式的时间为秒，兼容已经是毫秒的值
+const toMillis = (value: unknown): number | undefined => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+  return value < 1e12 ? Math.round(value * 1000) : value;
+};
+
+/**
+ * 由消息节点组装会话：跳过系统、工具等消息，其子节点挂到最近的保留节点下
+ */
+const buildSession = (
+  title: string,
+  nodes: ImportedNode[],
+  currentId: string | null | undefined,
+  createdAt?: number,
+  updatedAt?: number
+): ChatSession => {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const kept = (node: ImportedNode) => (node.role === 'user' || node.role === 'assistant') && !!(node.content || node.thinking);
+
+  // 向上找到最近的保留节点
+  const keptAncestor = (id: string | null | undefined): string | null => {
+    const visited = new Set<string>();
+    let node = id ? byId.get(id) : undefined;
+    while (node && !visited.has(node.id)) {
+      if (kept(node)) return node.id;
+      visited.add(node.id);
+      node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return null;
+  };
+
+  const start = createdAt ?? Date.now();
+  const messages: ChatMessage[] = breakCycles(nodes.filter(kept).map((node, index) => ({
+    id: node.id,
+    parentId: keptAncestor(node.parentId),
+    role: node.role as ChatMessage['role'],
+    content: node.content,
+    thinking: node.thinking || undefined,
+    // 缺少时间的消息按文件中的顺序排列
+    timestamp: node.timestamp ?? start + index,
+  })));
+
+  const current = keptAncestor(currentId) ?? messages[messages.length - 1]?.id ?? null;
+  return createSession({
+    title: title || DEFAULT_SESSION_TITLE,
+    messages,
+    currentLeafId: current ? findLeaf(messages, current) : null,
+    createdAt: start,
+    updatedAt: updatedAt ?? messages[messages.length - 1]?.timestamp ?? start,
+  });
+};
+
+// 可选字段不符合结构时丢弃该字段，不影响消息或会话的其他内容
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.optional().catch(undefined);
+
+// 列表中不符合结构的项逐个丢弃
+const listOf = <T extends z.ZodTypeAny>(schema: T) => z.array(z.unknown()).transform(items =>
+  items.flatMap(item => {
+    const parsed = schema.safeParse(item);
+    return parsed.success ? [parsed.data as z.output<T>] : [];
+  })
+);
+
+const finiteNumber = z.number().finite();
+
+// 工具结果还要符合工具声明的结构，否则渲染结果卡片时会出错
+const ToolCallSchema: z.ZodType<ToolCallResult> = z.object({
+  id: z.string().optional(),
+  toolName: z.string(),
+  args: z.record(z.unknown()).optional(),
+  success: z.boolean(),
+  result: z.unknown(),
+  error: z.string().optional(),
+  fetchStats: z.object({ requests: finiteNumber, cacheHits: finiteNumber }).optional(),
+}).refine(isValidToolResult);
+
+const AttachmentSchema: z.ZodType<Attachment> = z.object({
+  id: z.string(),
+  kind: z.enum(['image', 'document']),
+  name: z.string(),
+  mimeType: z.string(),
+  size: finiteNumber,
+  dataUrl: z.string().optional(),
+  text: z.string().optional(),
+  truncated: z.boolean().optional(),
+});
+
+const CitationSchema: z.ZodType<Citation> = z.object({
+  index: finiteNumber,
+  knowledgeBaseName: z.string(),
+  documentName: z.string(),
+  chunkIndex: finiteNumber,
+  text: z.string(),
+  score: finiteNumber,
+});
+
+// 只复制已知字段，isStreaming 等运行时状态不导入
+const MessageSchema: z.ZodType<ChatMessage, z.ZodTypeDef, unknown> = z.object({
+  id: z.string(),
+  parentId: z.string().nullable().optional(),
+  role: z.enum(['user', 'assistant', 'system']),
+  content: z.string(),
+  timestamp: finiteNumber,
+  thinking: optional(z.string()),
+  toolCall: optional(z.boolean()),
+  toolCalls: optional(listOf(ToolCallSchema)),
+  extraction: optional(ExtractionResultSchema),
+  interrupted: optional(z.boolean()),
+  attachments: optional(listOf(AttachmentSchema)),
+  citations: optional(listOf(CitationSchema)),
+  usage: optional(z.object({
+    inputTokens: finiteNumber,
+    outputTokens: finiteNumber,
+    outputDurationMs: finiteNumber.optional(),
+  })),
+  metrics: optional(z.object({
+    model: z.string().optional(),
+    ttftMs: finiteNumber.optional(),
+    durationMs: finiteNumber,
+    tokensPerSecond: finiteNumber.optional(),
+  })),
+});
+
+const SamplingSchema: z.ZodType<Partial<SamplingOptions>> = z.object({
+  temperature: finiteNumber,
+  maxTokens: finiteNumber,
+  numCtx: finiteNumber,
+  topP: finiteNumber,
+  topK: finiteNumber,
+  repeatPenalty: finiteNumber,
+  seed: finiteNumber,
+  stop: z.array(z.string()),
+  keepAlive: z.string(),
+}).partial();
+
+// 会话的设置字段，id 和消息另行处理
+const SessionSchema = z.object({
+  title: optional(z.string()),
+  model: optional(z.string()),
+  systemPrompt: optional(z.string()),
+  disabledTools: optional(z.array(z.string())),
+  sampling: optional(SamplingSchema),
+  knowledgeBaseIds: optional(z.array(z.string())),
+  extractionSchemaId: optional(z.string()),
+  messages: z.array(z.unknown()),
+  currentLeafId: optional(z.string().nullable()),
+  createdAt: optional(finiteNumber),
+  updatedAt: optional(finiteNumber),
+});
+
+// 去掉值为 undefined 的字段，避免覆盖默认值
+const definedFields = <T extends object>(value: T): Partial<T> =>
+  Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as Partial<T>;
+
+// 丢弃缺少必需字段的消息和重复的 ID
+const validMessages = (messages: unknown[]): ChatMessage[] => {
+  const ids = new Set<string>();
+  return listOf(MessageSchema).parse(messages)
+    .map(message => definedFields(message) as ChatMessage)
+    .filter(message => !ids.has(message.id) && !!ids.add(message.id));
+};
+
+/**
+ * 本应用导出的 JSON：完整恢复会话，使用新的会话 ID 避免覆盖已有会话
+ * 文件内容不可信：只复制已知字段并校验结构，断开 parentId 形成的环，当前叶子无效时改为最新的分支
+ */
+const fromAppExport = (data: JsonObject): ChatSession[] => {
+  if (!Array.isArray(data.sessions)) {
+    throw new Error('导出文件中没有会话数据');
+  }
+  return listOf(SessionSchema).parse(data.sessions).map(({ messages: rawMessages, ...fields }) => {
+    const normalized = normalizeSessionTree({
+      ...createSession(definedFields(fields)),
+      id: crypto.randomUUID(),
+      title: fields.title || DEFAULT_SESSION_TITLE,
+      messages: validMessages(rawMessages),
+    });
+    const { messages, currentLeafId } = normalized;
+    if (messages.some(message => message.id === currentLeafId)) return normalized;
+    const last = messages[messages.length - 1];
+    return { ...normalized, currentLeafId: last ? findLeaf(messages, last.id) : null };
+  });
+};
+
+// ChatGPT 的消息内容：parts 中的文字部分（图片等以对象表示，忽略）
+const chatGptText = (content: unknown): string => {
+  if (!isObject(content)) return '';
+  if (Array.isArray(content.parts)) {
+    return content.parts.filter((part): part is string => typeof part === 'string').join('\n');
+  }
+  return typeof content.text === 'string' ? content.text : '';
+};
+
+/**
+ * ChatGPT 导出（conversations.json）：mapping 中的每个节点记录父节点和消息
+ */
+const fromChatGpt = (conversation: JsonObject): ChatSession => {
+  const mapping = isObject(conversation.mapping) ? conversation.mapping : {};
+  const nodes = Object.entries(mapping).flatMap(([id, value]): ImportedNode[] => {
+    if (!isObject(value)) return [];
+    const message = isObject(value.message) ? value.message : null;
+    const author = message && isObject(message.author) ? message.author : null;
+    const metadata = message && isObject(message.metadata) ? message.metadata : null;
+    return [{
+      id,
+      parentId: typeof value.parent === 'string' ? value.parent : null,
+      // 界面上隐藏的消息（如自定义指令）不导入
+      role: metadata?.is_visually_hidden_from_conversation ? 'hidden' : String(author?.role ?? ''),
+      content: chatGptText(message?.content),
+      timestamp: toMillis(message?.create_time),
+    }];
+  });
+  return buildSession(
+    String(conversation.title ?? ''),
+    nodes,
+    typeof conversation.current_node === 'string' ? conversation.current_node : null,
+    toMillis(conversation.create_time),
+    toMillis(conversation.update_time)
+  );
+};
+
+// Open WebUI 把思考过程以 <details type="reasoning"> 写在回答开头
+const REASONING_PATTERN = /<details type="reasoning"[^>]*>\s*<summary>[\s\S]*?<\/summary>([\s\S]*?)<\/details>\s*/;
+
+const splitReasoning = (content: string) => {
+  const match = content.match(REASONING_PATTERN);
+  if (!match) return { content };
+  return {
+    content: content.replace(REASONING_PATTERN, '').trim(),
+    thinking: match[1].split('\n').map(line => line.replace(/^>\s?/, '')).join('\n').trim(),
+  };
+};
+
+/**
+ * Open WebUI 导出：history.messages 记录完整的消息树，history.currentId 为当前分支
+ */
+const fromOpenWebUI = (item: JsonObject): ChatSession => {
+  const chat = isObject(item.chat) ? item.chat : item;
+  const history = isObject(chat.history) ? chat.history : {};
+  const list = isObject(history.messages)
+    ? Object.values(history.messages)
+    : Array.isArray(chat.messages) ? chat.messages : [];
+
+  const nodes = list.filter(isObject).map((message, index, all): ImportedNode => ({
+    id: String(message.id ?? index),
+    // 没有消息树时按列表顺序串联
+    parentId: typeof message.parentId === 'string'
+      ? message.parentId
+      : isObject(history.messages) || index === 0 ? null : String(all[index - 1].id ?? index - 1),
+    role: String(message.role ?? ''),
+    timestamp: toMillis(message.timestamp),
+    ...splitReasoning(typeof message.content === 'string' ? message.content : ''),
+  }));
+  return buildSession(
+    String(item.title ?? chat.title ?? ''),
+    nodes,
+    typeof history.currentId === 'string' ? history.currentId : null,
+    toMillis(item.created_at ?? chat.timestamp),
+    toMillis(item.updated_at)
+  );
+};
+
+/**
+ * 解析导入的文件内容，返回其中的全部会话
+ * @throws 文件不是 JSON 或格式无法识别时抛出错误
+ */
+export const parseConversationFile = (text: string): ChatSession[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+
+  if (isObject(data) && data.format === EXPORT_FORMAT) {
+    return fromAppExport(data);
+  }
+
+  const items = (Array.isArray(data) ? data : [data]).filter(isObject);
+  const sessions = items.flatMap(item => {
+    if (isObject(item.mapping)) return [fromChatGpt(item)];
+    if (isObject(item.chat) || isObject(item.history) || Array.isArray(item.messages)) return [fromOpenWebUI(item)];
+    return [];
+  });
+  if (sessions.length === 0) {
+    throw new Error('无法识别的文件格式，支持本应用导出的 JSON、ChatGPT 和 Open WebUI 的导出文件');
+  }
+  return sessions.filter(session => session.messages.length > 0);
+};
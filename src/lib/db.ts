@@ -0,0 +1,133 @@
+/**
+ * IndexedDB 基础封装
+ * 所有需要在浏览器本地持久化的数据（会话、知识库、工具请求缓存等）统一存放在同一个数据库中
+ */
+
+const DB_NAME = 'g-ai-chat';
+const DB_VERSION = 3;
+
+// 数据库中的对象仓库，新增仓库或索引时需同时提升 DB_VERSION
+export type StoreName = 'sessions' | 'knowledgeBases' | 'knowledgeChunks' | 'httpCache';
+const STORES: Record<StoreName, string[]> = {
+  sessions: [],
+  knowledgeBases: [],
+  // 文档片段按所属知识库和文档建立索引，便于检索和批量删除
+  knowledgeChunks: ['knowledgeBaseId', 'documentId'],
+  // 工具 HTTP 响应缓存按过期时间建立索引，便于清理过期记录
+  httpCache: ['expiresAt'],
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * 打开数据库（单例），首次打开或版本升级时创建缺失的对象仓库
+ */
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [store, indexes] of Object.entries(STORES)) {
+          const objectStore = db.objectStoreNames.contains(store)
+            ? request.transaction!.objectStore(store)
+            : db.createObjectStore(store, { keyPath: 'id' });
+          for (const index of indexes) {
+            if (!objectStore.indexNames.contains(index)) {
+              objectStore.createIndex(index, index);
+            }
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * 将 IDBRequest 包装为 Promise
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * 等待事务提交完成
+ */
+const completeTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+/**
+ * 在指定仓库上执行一次操作
+ */
+const withStore = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  operation: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDB();
+  const transaction = db.transaction(store, mode);
+  return promisify(operation(transaction.objectStore(store)));
+};
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+  withStore(store, 'readonly', objectStore => objectStore.getAll() as IDBRequest<T[]>);
+
+export const idbGet = <T>(store: StoreName, key: string): Promise<T | undefined> =>
+  withStore(store, 'readonly', objectStore => objectStore.get(key) as IDBRequest<T | undefined>);
+
+export const idbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+  await withStore(store, 'readwrite', objectStore => objectStore.put(value));
+};
+
+export const idbDelete = async (store: StoreName, key: string): Promise<void> => {
+  await withStore(store, 'readwrite', objectStore => objectStore.delete(key));
+};
+
+export const idbGetAllByIndex = <T>(store: StoreName, index: string, value: IDBValidKey): Promise<T[]> =>
+  withStore(store, 'readonly', objectStore => objectStore.index(index).getAll(value) as IDBRequest<T[]>);
+
+/**
+ * 在一个事务中批量写入多条记录
+ */
+export const idbPutMany = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(store, 'readwrite');
+  const objectStore = transaction.objectStore(store);
+  for (const value of values) {
+    objectStore.put(value);
+  }
+  await completeTransaction(transaction);
+};
+
+/**
+ * 删除索引值匹配（或在范围内）的全部记录
+ */
+export const idbDeleteByIndex = async (
+  store: StoreName,
+  index: string,
+  value: IDBValidKey | IDBKeyRange
+): Promise<void> => {
+  const db = await openDB();
+  const transaction = db.transaction(store, 'readwrite');
+  const request = transaction.objectStore(store).index(index).openCursor(value);
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+  await completeTransaction(transaction);
+};
@@ -0,0 +1,11 @@
+/**
+ * 将文本内容下载为文件（文件名中的非法字符替换为下划线）
+ */
+export const downloadFile = (name: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name.replace(/[\\/:*?"<>|]/g, '_');
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
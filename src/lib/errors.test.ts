@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { classifyError, HttpError } from './errors';
+
+const context = { baseUrl: 'http://localhost:8000/v1', model: 'qwen3:8b' };
+
+describe('classifyError', () => {
+  it.each([
+    'model "qwen3:8b" not found',
+    'The model `qwen3:8b` does not exist',
+  ])('错误信息提到模型不存在时归为 model_not_found：%s', async (message) => {
+    const error = await classifyError(new HttpError(404, message), { ...context, provider: 'openai' });
+    expect(error.kind).toBe('model_not_found');
+  });
+
+  it('Ollama 返回 404 时归为 model_not_found', async () => {
+    const error = await classifyError(new HttpError(404, 'Not Found'), { ...context, provider: 'ollama' });
+    expect(error.kind).toBe('model_not_found');
+  });
+
+  it('其他服务返回 404 且没有提到模型时归为接口地址错误', async () => {
+    const error = await classifyError(new HttpError(404, '404 page not found'), { ...context, provider: 'openai' });
+    expect(error.kind).toBe('connection');
+    expect(error.hint).toContain('Base URL');
+  });
+});
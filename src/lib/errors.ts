@@ -0,0 +1,160 @@
+/**
+ * 聊天请求错误分类
+ * 将底层的网络 / 模型服务错误归类，给出可操作的提示
+ */
+import type { ProviderType } from '../types';
+
+// 错误类别
+export type ChatErrorKind =
+  | 'connection' // 服务不可达（未启动或地址错误）
+  | 'cors' // 服务在运行但未允许当前来源
+  | 'auth' // API Key 缺失或无效
+  | 'model_not_found' // 模型未安装
+  | 'context_overflow' // 输入超出模型上下文长度
+  | 'timeout' // 请求超时
+  | 'aborted' // 请求被中断
+  | 'unknown';
+
+/**
+ * 分类后的聊天错误
+ */
+export class ChatError extends Error {
+  kind: ChatErrorKind;
+  hint: string; // 建议的处理方式
+  cause?: unknown; // 原始错误
+
+  constructor(kind: ChatErrorKind, message: string, hint: string, cause?: unknown) {
+    super(message);
+    this.name = 'ChatError';
+    this.kind = kind;
+    this.hint = hint;
+    this.cause = cause;
+  }
+}
+
+/**
+ * HTTP 请求返回非 2xx 状态
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// 错误分类时需要的上下文
+interface ErrorContext {
+  provider: ProviderType;
+  baseUrl: string;
+  model: string;
+  signal?: AbortSignal;
+}
+
+// 探测请求的超时时间
+const PROBE_TIMEOUT = 5000;
+
+/**
+ * 请求失败后判断是跨域被拦截还是服务不可达
+ * no-cors 请求不受跨域限制：能拿到（不透明的）响应说明服务在运行，只是没有允许当前来源
+ */
+export const probeNetworkFailure = async (baseUrl: string): Promise<'cors' | 'unreachable'> => {
+  try {
+    await fetch(baseUrl, { mode: 'no-cors', signal: AbortSignal.timeout(PROBE_TIMEOUT) });
+    return 'cors';
+  } catch {
+    return 'unreachable';
+  }
+};
+
+const getErrorText = (error: unknown): string => {
+  if (error instanceof Error) return `${error.name} ${error.message}`;
+  return String(error);
+};
+
+// 不同 SDK 的 HTTP 状态码字段：HttpError / OpenAI、Anthropic SDK 为 status，Ollama 为 status_code
+const getErrorStatus = (error: unknown): number | undefined => {
+  const { status, status_code } = (error ?? {}) as { status?: unknown; status_code?: unknown };
+  if (typeof status === 'number') return status;
+  if (typeof status_code === 'number') return status_code;
+  return undefined;
+};
+
+// 浏览器中 fetch 网络失败的几种报错（Chrome / Firefox / Safari / Node）
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|load failed|fetch failed|econnrefused|connection error/i;
+const MODEL_NOT_FOUND_PATTERN = /model ['"]?[^'"]*['"]? (not found|does not exist)|try pulling it first/i;
+const CONTEXT_OVERFLOW_PATTERN = /context (length|window)|exceeds? (the )?max(imum)? context|input (is )?too long|too many tokens|prompt is too long/i;
+const TIMEOUT_PATTERN = /timeouterror|timed? ?out/i;
+
+/**
+ * 将任意错误归类为 ChatError
+ * 网络失败时会额外探测一次，区分服务未启动和跨域被拦截
+ */
+export const classifyError = async (error: unknown, context: ErrorContext): Promise<ChatError> => {
+  if (error instanceof ChatError) return error;
+
+  const { provider, baseUrl, model, signal } = context;
+  const isOllama = provider === 'ollama';
+  const text = getErrorText(error);
+  const status = getErrorStatus(error);
+  const create = (kind: ChatErrorKind, message: string, hint: string) =>
+    new ChatError(kind, message, hint, error);
+
+  if (TIMEOUT_PATTERN.test(text)) {
+    return create('timeout', '请求超时', '模型首次加载可能较慢，请稍后重试；如果持续超时，可以换用更小的模型。');
+  }
+  if (signal?.aborted || (error instanceof Error && error.name === 'AbortError')) {
+    return create('aborted', '请求已中断', '可以重新发送这条消息。');
+  }
+  if (status === 401 || status === 403) {
+    return create('auth', 'API Key 无效或没有权限', '在「设置 → 连接配置」中检查当前服务配置的 API Key。');
+  }
+  // Ollama 对不存在的模型返回 404；其他服务的 404 没有提到模型时多半是 Base URL 或接口路径错误
+  if (MODEL_NOT_FOUND_PATTERN.test(text) || (status === 404 && isOllama)) {
+    return create(
+      'model_not_found',
+      `模型 ${model} 不存在`,
+      isOllama
+        ? `在「设置 → 模型管理」中拉取 ${model}（或运行 ollama pull ${model}），也可以在顶部切换到已安装的模型。`
+        : '检查模型名称是否正确，或在顶部切换到服务提供的其他模型。'
+    );
+  }
+  if (status === 404) {
+    return create(
+      'connection',
+      `模型服务的接口地址不存在（${baseUrl}）`,
+      provider === 'anthropic'
+        ? '请检查设置中的 Base URL 是否正确，Anthropic 格式接口的 Base URL 不需要包含 /v1。'
+        : '请检查设置中的 Base URL 是否正确，OpenAI 兼容接口的 Base URL 通常以 /v1 结尾。'
+    );
+  }
+  if (CONTEXT_OVERFLOW_PATTERN.test(text)) {
+    return create(
+      'context_overflow',
+      '对话超出模型的上下文长度',
+      '在设置中减小上下文窗口或改用「摘要最早的对话」，也可以新建会话继续。'
+    );
+  }
+  if (NETWORK_ERROR_PATTERN.test(text)) {
+    if (await probeNetworkFailure(baseUrl) === 'cors') {
+      return create(
+        'cors',
+        '服务拒绝了跨域请求',
+        isOllama
+          ? `设置环境变量 OLLAMA_ORIGINS="${window.location.origin}"（或 *）后重启 Ollama。`
+          : `在服务端允许来源 ${window.location.origin}（如 vLLM 的 --allowed-origins）。`
+      );
+    }
+    return create(
+      'connection',
+      `无法连接到模型服务（${baseUrl}）`,
+      isOllama
+        ? '请确认 Ollama 已启动（ollama serve），并检查设置中的 Base URL 是否正确。'
+        : '请确认服务已启动，并检查设置中的 Base URL 是否正确。'
+    );
+  }
+
+  return create('unknown', error instanceof Error && error.message ? error.message : '发生未知错误', '请稍后重试。');
+};
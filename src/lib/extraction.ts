@@ -0,0 +1,133 @@
+/**
+ * 结构化提取
+ * 提示词与结果校验都由提取模板的 JSON Schema 生成，Agent 模式和提取工具共用；
+ * 校验未通过时把 Zod 问题反馈给模型修正，修正次数用完后返回问题最少的部分结果
+ */
+import type { ZodIssue } from 'zod';
+import type { ExtractionIssue, ExtractionResult, ExtractionSchema } from '../types';
+import { getValidator } from './extractionSchemas';
+
+// 校验未通过时最多让模型修正的次数
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * 根据模板生成提取用的系统提示词
+ */
+export const buildExtractionPrompt = (schema: ExtractionSchema, showThinking = false): string => {
+  // $schema 只是版本声明，对模型没有帮助
+  const jsonSchema = Object.fromEntries(Object.entries(schema.jsonSchema).filter(([key]) => key !== '$schema'));
+  return `从用户描述中提取「${schema.name}」，按以下 JSON Schema 返回 JSON：
+
+${JSON.stringify(jsonSchema, null, 2)}
+
+注意：
+1. 如果没有解析到值的字段，请不要返回该字段，不要编造。
+2. 直接返回 JSON，不要使用 markdown 代码块。${showThinking ? '\n\n请先思考如何提取这些信息。' : ''}`;
+};
+
+const toIssue = (issue: ZodIssue): ExtractionIssue => {
+  const missing = issue.code === 'invalid_type' && issue.received === 'undefined';
+  return { path: issue.path, kind: missing ? 'missing' : 'invalid', message: missing ? '缺少该字段' : issue.message };
+};
+
+/**
+ * 按模板校验数据，不抛出错误：通过时返回 Zod 处理后的数据，否则保留原始数据并列出问题
+ */
+export const checkExtraction = (
+  data: Record<string, unknown>,
+  schema: Pick<ExtractionSchema, 'id' | 'name' | 'jsonSchema'>,
+  attempts?: number
+): ExtractionResult => {
+  const base = { schemaId: schema.id, schemaName: schema.name, jsonSchema: schema.jsonSchema, attempts };
+  const parsed = getValidator(schema).safeParse(data);
+  return parsed.success
+    ? { ...base, data: parsed.data as Record<string, unknown>, issues: [] }
+    : { ...base, data, issues: parsed.error.issues.map(toIssue) };
+};
+
+/**
+ * 用户修改字段后重新校验
+ */
+export const revalidateExtraction = (result: ExtractionResult, data: Record<string, unknown>): ExtractionResult =>
+  checkExtraction(data, { id: result.schemaId, name: result.schemaName, jsonSchema: result.jsonSchema }, result.attempts);
+
+/**
+ * 解析并校验模型输出
+ * 模型已按 Schema 约束输出时直接解析；不支持约束输出的服务可能带有代码块或说明文字，取其中的 JSON 对象
+ */
+export const parseExtraction = (text: string, schema: ExtractionSchema, attempts?: number): ExtractionResult => {
+  const trimmed = text.trim();
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  const json = start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    data = undefined;
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {
+      ...checkExtraction({}, schema, attempts),
+      issues: [{ path: [], kind: 'invalid', message: '输出不是有效的 JSON 对象' }],
+    };
+  }
+  return checkExtraction(data as Record<string, unknown>, schema, attempts);
+};
+
+/**
+ * 将校验问题格式化为文本
+ */
+export const formatIssues = (issues: ExtractionIssue[]): string =>
+  issues.map(issue => `- ${issue.path.join('.') || '整体'}：${issue.message}`).join('\n');
+
+/**
+ * 生成让模型修正输出的提示
+ */
+export const buildRepairPrompt = (issues: ExtractionIssue[]): string =>
+  `上面的 JSON 没有通过校验：
+${formatIssues(issues)}
+
+请根据原文修正这些问题，重新输出完整的 JSON。原文中确实没有提到的字段请直接省略，不要编造。`;
+
+// 问题越少越好；数量相同时，无法解析的结果最差
+const score = (result: ExtractionResult) =>
+  (result.issues ?? []).reduce((sum, issue) => sum + (issue.path.length === 0 ? 100 : 1), 0);
+
+/**
+ * 在两次提取结果中选出问题更少的一个（相同时取较新的）
+ */
+export const pickBetterResult = (best: ExtractionResult | null, current: ExtractionResult): ExtractionResult =>
+  !best || score(current) <= score(best) ? current : best;
+
+/**
+ * 是否需要让模型继续修正：还有问题，且与上一次的问题不完全相同（相同说明模型无法改进）
+ */
+export const needsRepair = (current: ExtractionResult, previous: ExtractionResult | null): boolean => {
+  if (!current.issues?.length) return false;
+  return !previous || formatIssues(previous.issues ?? []) !== formatIssues(current.issues);
+};
+
+/**
+ * 不可变地设置嵌套路径上的值，value 为 undefined 时删除该字段
+ */
+export const setValueAtPath = (
+  data: Record<string, unknown>,
+  path: Array<string | number>,
+  value: unknown
+): Record<string, unknown> => {
+  const [key, ...rest] = path;
+  const copy = { ...data };
+  if (rest.length === 0) {
+    if (value === undefined) {
+      delete copy[key];
+    } else {
+      copy[key] = value;
+    }
+    return copy;
+  }
+  const child = data[key];
+  copy[key] = setValueAtPath(child && typeof child === 'object' && !Array.isArray(child) ? child as Record<string, unknown> : {}, rest, value);
+  return copy;
+};
@@ -0,0 +1,88 @@
+/**
+ * 结构化提取模板
+ * 内置用户信息、发票、简历、订单四种模板（由 Zod Schema 生成），
+ * 用户定义或导入的 JSON Schema 模板存放在 localStorage 中
+ */
+import type { z } from 'zod';
+import { toJsonSchema } from '@langchain/core/utils/json_schema';
+import { InvoiceSchema, OrderSchema, ResumeSchema, UserSchema } from '../schemas/zod';
+import type { ExtractionSchema, JsonSchema } from '../types';
+import { jsonSchemaToZod } from './jsonSchema';
+
+const SCHEMAS_KEY = 'extractionSchemas';
+
+export const DEFAULT_EXTRACTION_SCHEMA_ID = 'user';
+
+// 内置模板直接使用 Zod Schema 校验，保留其中的中文错误提示
+const BUILTIN_VALIDATORS: Record<string, z.ZodTypeAny> = {
+  user: UserSchema,
+  invoice: InvoiceSchema,
+  resume: ResumeSchema,
+  order: OrderSchema,
+};
+
+const BUILTIN_NAMES: Record<string, string> = {
+  user: '用户信息',
+  invoice: '发票',
+  resume: '简历',
+  order: '订单',
+};
+
+export const BUILTIN_SCHEMAS: ExtractionSchema[] = Object.entries(BUILTIN_VALIDATORS).map(([id, schema]) => ({
+  id,
+  name: BUILTIN_NAMES[id],
+  jsonSchema: toJsonSchema(schema) as JsonSchema,
+  builtin: true,
+}));
+
+/**
+ * 读取全部提取模板（内置模板在前）
+ */
+export const loadSchemas = (): ExtractionSchema[] => {
+  try {
+    const saved = localStorage.getItem(SCHEMAS_KEY);
+    return [...BUILTIN_SCHEMAS, ...(saved ? JSON.parse(saved) as ExtractionSchema[] : [])];
+  } catch {
+    // 解析失败，只使用内置模板
+    return BUILTIN_SCHEMAS;
+  }
+};
+
+// 只持久化用户定义的模板
+const saveUserSchemas = (schemas: ExtractionSchema[]) => {
+  localStorage.setItem(SCHEMAS_KEY, JSON.stringify(schemas.filter(schema => !schema.builtin)));
+};
+
+/**
+ * 按 ID 或名称查找模板，找不到时返回默认的用户信息模板
+ */
+export const findSchema = (schemas: ExtractionSchema[], idOrName?: string): ExtractionSchema =>
+  schemas.find(schema => schema.id === idOrName || schema.name === idOrName)
+  ?? schemas.find(schema => schema.id === DEFAULT_EXTRACTION_SCHEMA_ID)!;
+
+/**
+ * 保存模板（同 ID 覆盖），返回更新后的模板列表
+ */
+export const saveSchema = (schemas: ExtractionSchema[], schema: ExtractionSchema) => {
+  const exists = schemas.some(item => item.id === schema.id);
+  const updated = exists
+    ? schemas.map(item => (item.id === schema.id ? schema : item))
+    : [...schemas, schema];
+  saveUserSchemas(updated);
+  return updated;
+};
+
+/**
+ * 删除模板（内置模板不可删除），返回更新后的模板列表
+ */
+export const removeSchema = (schemas: ExtractionSchema[], id: string) => {
+  const updated = schemas.filter(schema => schema.builtin || schema.id !== id);
+  saveUserSchemas(updated);
+  return updated;
+};
+
+/**
+ * 获取模板对应的 Zod 校验器（自定义模板的 ID 为 UUID，不会与内置模板冲突）
+ */
+export const getValidator = (schema: Pick<ExtractionSchema, 'id' | 'jsonSchema'>): z.ZodTypeAny =>
+  BUILTIN_VALIDATORS[schema.id] ?? jsonSchemaToZod(schema.jsonSchema);
@@ -0,0 +1,58 @@
+/**
+ * 模型服务健康检查
+ * 检查服务是否可达、当前模型是否存在，Ollama 还会获取服务版本
+ */
+import type { OllamaConfig } from '../types';
+import { HttpError, probeNetworkFailure } from './errors';
+import { getVersion, isSameModel } from './ollamaApi';
+import { listProviderModels } from './providers';
+
+// 健康状态
+export type HealthState = 'checking' | 'ok' | 'model_missing' | 'unreachable' | 'cors' | 'unauthorized';
+
+export interface HealthStatus {
+  state: HealthState;
+  version?: string; // Ollama 版本
+  checkedAt: number; // 检查时间
+}
+
+// 单次检查的超时时间
+const HEALTH_TIMEOUT = 5000;
+
+/**
+ * 执行一次健康检查
+ */
+export const checkHealth = async (
+  config: Pick<OllamaConfig, 'provider' | 'baseUrl' | 'apiKey'>,
+  model: string
+): Promise<HealthStatus> => {
+  const signal = AbortSignal.timeout(HEALTH_TIMEOUT);
+  const checkedAt = Date.now();
+
+  let version: string | undefined;
+  if (config.provider === 'ollama') {
+    try {
+      version = await getVersion(config.baseUrl, signal);
+    } catch (error) {
+      console.warn('⚠️ [Health] 无法连接 Ollama:', error);
+      return { state: await probeNetworkFailure(config.baseUrl), checkedAt };
+    }
+  }
+
+  try {
+    const models = await listProviderModels(config, signal);
+    const installed = models.some(m => isSameModel(m.name, model));
+    return { state: installed ? 'ok' : 'model_missing', version, checkedAt };
+  } catch (error) {
+    if (error instanceof HttpError) {
+      // 服务可达：Key 无效时提示，部分兼容服务没有实现模型列表接口，视为正常
+      const unauthorized = error.status === 401 || error.status === 403;
+      return { state: unauthorized ? 'unauthorized' : 'ok', version, checkedAt };
+    }
+    console.warn('⚠️ [Health] 获取模型列表失败:', error);
+    if (config.provider === 'ollama') {
+      return { state: 'ok', version, checkedAt };
+    }
+    return { state: await probeNetworkFailure(config.baseUrl), checkedAt };
+  }
+};
@@ -0,0 +1,131 @@
+/**
+ * JSON Schema 工具
+ * 将用户导入的 JSON Schema 转换为 Zod Schema，用于校验模型的提取结果；
+ * 只支持结构化提取常用的子集，无法识别的部分不做约束
+ */
+import { z } from 'zod';
+import type { JsonSchema } from '../types';
+
+const asSchema = (value: unknown): JsonSchema =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as JsonSchema : {};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+
+/**
+ * 将 JSON Schema 转换为 Zod Schema
+ */
+export const jsonSchemaToZod = (schema: JsonSchema): z.ZodTypeAny => {
+  let result = convert(schema);
+  if (typeof schema.description === 'string') {
+    result = result.describe(schema.description);
+  }
+  return result;
+};
+
+const convert = (schema: JsonSchema): z.ZodTypeAny => {
+  if ('const' in schema) {
+    return z.literal(schema.const as z.Primitive);
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum.every(value => typeof value === 'string')
+      ? z.enum(schema.enum as [string, ...string[]])
+      : z.any().refine(value => (schema.enum as unknown[]).includes(value), { message: `取值必须是 ${JSON.stringify(schema.enum)} 之一` });
+  }
+
+  const variants = (schema.anyOf ?? schema.oneOf) as unknown[] | undefined;
+  if (Array.isArray(variants) && variants.length > 0) {
+    const options = variants.map(variant => jsonSchemaToZod(asSchema(variant)));
+    return options.length === 1 ? options[0] : z.union(options as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  // type 为数组时（如 ["string", "null"]）取非 null 的类型并允许 null
+  if (Array.isArray(schema.type)) {
+    const types = schema.type.filter(type => type !== 'null');
+    const base = types.length === 1 ? convert({ ...schema, type: types[0] }) : z.any();
+    return schema.type.includes('null') ? base.nullable() : base;
+  }
+
+  switch (schema.type) {
+    case 'object':
+      return convertObject(schema);
+    case 'array': {
+      let array = z.array(schema.items ? jsonSchemaToZod(asSchema(schema.items)) : z.any());
+      if (isNumber(schema.minItems)) array = array.min(schema.minItems);
+      if (isNumber(schema.maxItems)) array = array.max(schema.maxItems);
+      return array;
+    }
+    case 'string':
+      return convertString(schema);
+    case 'number':
+    case 'integer': {
+      let number = z.number();
+      if (schema.type === 'integer') number = number.int();
+      if (isNumber(schema.minimum)) number = number.min(schema.minimum);
+      if (isNumber(schema.maximum)) number = number.max(schema.maximum);
+      if (isNumber(schema.exclusiveMinimum)) number = number.gt(schema.exclusiveMinimum);
+      if (isNumber(schema.exclusiveMaximum)) number = number.lt(schema.exclusiveMaximum);
+      return number;
+    }
+    case 'boolean':
+      return z.boolean();
+    case 'null':
+      return z.null();
+    default:
+      // 未声明 type 但有 properties 时按对象处理
+      return schema.properties ? convertObject(schema) : z.any();
+  }
+};
+
+const convertObject = (schema: JsonSchema): z.ZodTypeAny => {
+  const properties = asSchema(schema.properties);
+  const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const [key, value] of Object.entries(properties)) {
+    const field = jsonSchemaToZod(asSchema(value));
+    shape[key] = required.includes(key) ? field : field.optional();
+  }
+  return z.object(shape);
+};
+
+const convertString = (schema: JsonSchema): z.ZodTypeAny => {
+  let string = z.string();
+  if (isNumber(schema.minLength)) string = string.min(schema.minLength);
+  if (isNumber(schema.maxLength)) string = string.max(schema.maxLength);
+  if (typeof schema.pattern === 'string') string = string.regex(new RegExp(schema.pattern), `格式不符合 ${schema.pattern}`);
+  switch (schema.format) {
+    case 'email':
+      return string.email('邮箱格式不正确');
+    case 'uri':
+    case 'url':
+      return string.url('链接格式不正确');
+    case 'date':
+      return string.regex(/^\d{4}-\d{2}-\d{2}$/, '日期格式应为 YYYY-MM-DD');
+    case 'date-time':
+      return string.datetime({ offset: true, message: '时间格式不正确' });
+    default:
+      return string;
+  }
+};
+
+/**
+ * 解析并检查用户输入的 JSON Schema，顶层必须是带 properties 的对象
+ */
+export const parseJsonSchema = (text: string): JsonSchema => {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    throw new Error('不是有效的 JSON');
+  }
+  const object = asSchema(schema);
+  if ((object.type !== undefined && object.type !== 'object') || !object.properties) {
+    throw new Error('顶层必须是包含 properties 的 object 类型 Schema');
+  }
+  // 提前转换一次，确认 Schema 中没有无效的正则等内容
+  try {
+    jsonSchemaToZod(object);
+  } catch (error) {
+    throw new Error(`Schema 无法解析：${error instanceof Error ? error.message : String(error)}`);
+  }
+  return { type: 'object', ...object };
+};
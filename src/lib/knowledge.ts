@@ -0,0 +1,197 @@
+/**
+ * 本地知识库（RAG）
+ * 文档切分为片段后用 Ollama 嵌入模型向量化，片段与向量保存在 IndexedDB 中；
+ * 提问时对问题向量化，按余弦相似度取最相关的片段放入上下文
+ */
+import { OllamaEmbeddings } from '@langchain/ollama';
+import type { Citation, KnowledgeBase, KnowledgeChunk, KnowledgeDocument } from '../types';
+import { MAX_FILE_SIZE, chunkText, isDocumentFile, readDocumentText } from './attachments';
+import { idbDelete, idbDeleteByIndex, idbGet, idbGetAll, idbGetAllByIndex, idbPut, idbPutMany } from './db';
+
+// 知识库文档的最大字符数
+const MAX_KNOWLEDGE_CHARS = 2_000_000;
+// 片段长度（字符），较短的片段检索更精确
+const KNOWLEDGE_CHUNK_CHARS = 1000;
+// 每批向量化的片段数
+const EMBED_BATCH_SIZE = 16;
+// 默认检索的片段数
+export const DEFAULT_TOP_K = 4;
+// 相似度低于该值的片段视为无关
+const MIN_SCORE = 0.3;
+
+export const DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+// OllamaEmbeddings 的方法不接受 signal，通过自定义 fetch 传给请求
+const createEmbeddings = (knowledgeBase: KnowledgeBase, signal?: AbortSignal) =>
+  new OllamaEmbeddings({
+    baseUrl: knowledgeBase.baseUrl,
+    model: knowledgeBase.embeddingModel,
+    truncate: true,
+    fetch: signal ? (input, init) => fetch(input, { ...init, signal }) : undefined,
+  });
+
+/**
+ * 读取全部知识库，按创建时间排序
+ */
+export const listKnowledgeBases = async (): Promise<KnowledgeBase[]> => {
+  const knowledgeBases = await idbGetAll<KnowledgeBase>('knowledgeBases');
+  return knowledgeBases.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * 新建空知识库
+ */
+export const createKnowledgeBase = async (name: string, embeddingModel: string, baseUrl: string): Promise<KnowledgeBase> => {
+  const now = Date.now();
+  const knowledgeBase: KnowledgeBase = {
+    id: crypto.randomUUID(),
+    name,
+    baseUrl,
+    embeddingModel,
+    documents: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await idbPut('knowledgeBases', knowledgeBase);
+  return knowledgeBase;
+};
+
+/**
+ * 删除知识库及其全部片段
+ */
+export const deleteKnowledgeBase = async (id: string): Promise<void> => {
+  await idbDeleteByIndex('knowledgeChunks', 'knowledgeBaseId', id);
+  await idbDelete('knowledgeBases', id);
+};
+
+/**
+ * 向知识库添加文档：提取文字、切分并向量化
+ * @param onProgress 已向量化的片段数 / 总片段数
+ */
+export const addDocument = async (
+  knowledgeBase: KnowledgeBase,
+  file: File,
+  onProgress?: (done: number, total: number) => void
+): Promise<KnowledgeBase> => {
+  if (!isDocumentFile(file)) {
+    throw new Error(`不支持的文件类型: ${file.name}（支持 Markdown、TXT、PDF）`);
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`${file.name} 超过 ${MAX_FILE_SIZE / 1024 / 1024}MB`);
+  }
+
+  const text = await readDocumentText(file, MAX_KNOWLEDGE_CHARS);
+  const pieces = chunkText(text.slice(0, MAX_KNOWLEDGE_CHARS), KNOWLEDGE_CHUNK_CHARS);
+  const embeddings = createEmbeddings(knowledgeBase);
+  const document: KnowledgeDocument = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    size: file.size,
+    chunkCount: pieces.length,
+    createdAt: Date.now(),
+  };
+
+  // 全部片段向量化成功后再写入，避免留下不完整的文档
+  const chunks: KnowledgeChunk[] = [];
+  onProgress?.(0, pieces.length);
+  for (let start = 0; start < pieces.length; start += EMBED_BATCH_SIZE) {
+    const batch = pieces.slice(start, start + EMBED_BATCH_SIZE);
+    const vectors = await embeddings.embedDocuments(batch);
+    batch.forEach((text, offset) => {
+      chunks.push({
+        id: crypto.randomUUID(),
+        knowledgeBaseId: knowledgeBase.id,
+        documentId: document.id,
+        documentName: document.name,
+        index: start + offset,
+        text,
+        embedding: vectors[offset],
+      });
+    });
+    onProgress?.(chunks.length, pieces.length);
+  }
+
+  await idbPutMany('knowledgeChunks', chunks);
+  const updated: KnowledgeBase = {
+    ...knowledgeBase,
+    documents: [...knowledgeBase.documents, document],
+    updatedAt: Date.now(),
+  };
+  await idbPut('knowledgeBases', updated);
+  console.log(`📚 [Knowledge] ${knowledgeBase.name} 添加文档 ${file.name}，共 ${chunks.length} 个片段`);
+  return updated;
+};
+
+/**
+ * 从知识库移除文档及其片段
+ */
+export const removeDocument = async (knowledgeBase: KnowledgeBase, documentId: string): Promise<KnowledgeBase> => {
+  await idbDeleteByIndex('knowledgeChunks', 'documentId', documentId);
+  const updated: KnowledgeBase = {
+    ...knowledgeBase,
+    documents: knowledgeBase.documents.filter(document => document.id !== documentId),
+    updatedAt: Date.now(),
+  };
+  await idbPut('knowledgeBases', updated);
+  return updated;
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+/**
+ * 在指定知识库中检索与问题最相关的片段
+ * 不同知识库可能使用不同的嵌入模型，问题按各自的模型分别向量化；传入 signal 时中断生成会取消向量化请求
+ */
+export const searchKnowledge = async (
+  knowledgeBaseIds: string[],
+  query: string,
+  { topK = DEFAULT_TOP_K, signal }: { topK?: number; signal?: AbortSignal } = {}
+): Promise<Citation[]> => {
+  const scored: Array<Omit<Citation, 'index'>> = [];
+
+  for (const id of knowledgeBaseIds) {
+    signal?.throwIfAborted();
+    const knowledgeBase = await idbGet<KnowledgeBase>('knowledgeBases', id);
+    if (!knowledgeBase || knowledgeBase.documents.length === 0) continue;
+
+    const [queryVector, chunks] = await Promise.all([
+      createEmbeddings(knowledgeBase, signal).embedQuery(query),
+      idbGetAllByIndex<KnowledgeChunk>('knowledgeChunks', 'knowledgeBaseId', id),
+    ]);
+    for (const chunk of chunks) {
+      // 向量维度不一致说明更换过嵌入模型，跳过旧片段
+      if (chunk.embedding.length !== queryVector.length) continue;
+      scored.push({
+        knowledgeBaseName: knowledgeBase.name,
+        documentName: chunk.documentName,
+        chunkIndex: chunk.index,
+        text: chunk.text,
+        score: cosineSimilarity(queryVector, chunk.embedding),
+      });
+    }
+  }
+
+  return scored
+    .filter(item => item.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map((item, index) => ({ ...item, index: index + 1 }));
+};
+
+/**
+ * 将检索到的片段格式化为系统提示词中的参考资料
+ */
+export const formatCitations = (citations: Citation[]): string =>
+  `以下是从知识库中检索到的参考资料。回答时优先依据这些资料，并在引用处用 [编号] 标注来源；资料与问题无关时忽略即可。\n\n${
+    citations.map(citation => `[${citation.index}] 《${citation.documentName}》\n${citation.text}`).join('\n\n')
+  }`;
@@ -1,425 +1,356 @@
-import { ChatOllama } from '@langchain/ollama';
-import { HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { DynamicStructuredTool } from '@langchain/core/tools';
-import { z } from 'zod';
-import { OLLAMA_CONFIG, type OllamaConfig, type ToolCallResult } from '../types';
-import { UserSchema, type User } from '../schemas/zod';
-import { extractUserInfo } from '../tools/extractUserInfo';
-import { getWeatherByCity, type WeatherData } from '../tools/getWeather';
-
-// 流式响应块类型
-export interface StreamChunk {
-  type: 'thinking' | 'content' | 'tool_call';
-  content: string;
-  toolCall?: ToolCallResult;
+import { AIMessage, HumanMessage, SystemMessage, ToolMessage, type AIMessageChunk, type BaseMessage } from '@langchain/core/messages';
+import { OLLAMA_CONFIG, type Attachment, type ChatMessage, type Citation, type ExtractionResult, type ExtractionSchema, type OllamaConfig, type TokenUsage, type ToolCallResult } from '../types';
+import { describeTools, formatToolResult, listTools, runTool, toLangChainTool } from '../tools';
+import { buildContextMessages } from './memory';
+import { classifyError } from './errors';
+import { createChatModel, type ChatModel } from './providers';
+import { formatCitations, searchKnowledge } from './knowledge';
+import { BUILTIN_SCHEMAS, findSchema } from './extractionSchemas';
+import {
+  MAX_REPAIR_ATTEMPTS,
+  buildExtractionPrompt,
+  buildRepairPrompt,
+  needsRepair,
+  parseExtraction,
+  pickBetterResult,
+} from './extraction';
+import { createStreamParser, getContentAsString, parseStream, type StreamChunk } from './streamParser';
+
+export type { StreamChunk } from './streamParser';
+
+// 聊天请求的通用选项
+export interface ChatRequestOptions {
+  history?: ChatMessage[]; // 之前的对话历史
+  signal?: AbortSignal; // 用于中断生成（包括进行中的工具调用）
+  attachments?: Attachment[]; // 当前消息的图片和文件
+  knowledgeBaseIds?: string[]; // 检索的知识库，为空时不检索
 }
 
+/**
+ * 判断错误是否由中断生成引起
+ */
+export const isAbortError = (error: unknown, signal?: AbortSignal): boolean =>
+  !!signal?.aborted || (error instanceof Error && error.name === 'AbortError');
+
 // 当前使用的配置（支持动态更新）
 let currentConfig: OllamaConfig = OLLAMA_CONFIG;
-let ollamaInstance: ChatOllama | null = null;
+let chatModelInstance: ChatModel | null = null;
 
 /**
- * 更新配置并重建 Ollama 实例
+ * 更新配置并重建聊天模型实例
  */
 export const updateOllamaConfig = (config: OllamaConfig) => {
   currentConfig = config;
-  ollamaInstance = null; // 清除旧实例
+  chatModelInstance = null; // 清除旧实例
 };
 
 /**
- * 获取 Ollama 实例（单例模式）
+ * 将请求错误归类为带处理建议的 ChatError
+ */
+const toChatError = (error: unknown, signal?: AbortSignal) =>
+  classifyError(error, {
+    provider: currentConfig.provider,
+    baseUrl: currentConfig.baseUrl,
+    model: currentConfig.model,
+    signal,
+  });
+
+/**
+ * 获取当前服务的聊天模型实例（单例模式）
  */
-const getOllamaInstance = (): ChatOllama => {
-  if (!ollamaInstance) {
-    ollamaInstance = new ChatOllama({
-      baseUrl: currentConfig.baseUrl,
-      model: currentConfig.model,
-      temperature: currentConfig.temperature,
-      think: currentConfig.showThinking,
-    });
+const getChatModel = (): ChatModel => {
+  if (!chatModelInstance) {
+    chatModelInstance = createChatModel(currentConfig);
   }
-  return ollamaInstance;
+  return chatModelInstance;
 };
 
 /**
- * 将 chunk.content 转换为字符串
- * LangChain 的 content 可能是 string 或数组
+ * 将超出上下文预算的早期对话压缩为摘要
  */
-const getContentAsString = (content: unknown): string => {
-  if (typeof content === 'string') {
-    return content;
-  }
-  if (Array.isArray(content)) {
-    return content
-      .map(item => {
-        if (typeof item === 'string') {
-          return item;
-        }
-        if (item && typeof item === 'object' && 'text' in item) {
-          return String((item as { text: string }).text);
-        }
-        return '';
-      })
-      .join('');
-  }
-  return String(content || '');
+const summarizeHistory = async (transcript: string, signal?: AbortSignal): Promise<string> => {
+  const chatModel = getChatModel();
+  const response = await chatModel.invoke([
+    new SystemMessage('请用简洁的中文概括以下对话的要点，保留关键事实、用户偏好和未完成的问题，不超过200字。'),
+    new HumanMessage(transcript),
+  ], { signal });
+  return getContentAsString(response.content);
 };
 
 /**
- * 解析 Ollama 原生流式响应格式
- * 支持 message.thinking、additional_kwargs.reasoning_content 和 message.content 分离
+ * 从启用的知识库中检索与问题相关的片段
+ * 检索失败（如嵌入模型未安装）时只记录错误，不影响正常回答
  */
-const parseStreamChunk = (chunk: { content: unknown; additional_kwargs?: unknown }): StreamChunk[] => {
-  const results: StreamChunk[] = [];
-  const chunkContent = getContentAsString(chunk.content);
-
-  // 1. 首先检查 additional_kwargs 中的 reasoning_content（LangChain 格式）
-  if (chunk.additional_kwargs && typeof chunk.additional_kwargs === 'object') {
-    const kwargs = chunk.additional_kwargs as { reasoning_content?: string };
-    if (kwargs.reasoning_content) {
-      results.push({ type: 'thinking', content: kwargs.reasoning_content });
-    }
+const retrieveKnowledge = async (content: string, options: ChatRequestOptions): Promise<Citation[]> => {
+  if (!options.knowledgeBaseIds?.length || !content.trim()) return [];
+  try {
+    const citations = await searchKnowledge(options.knowledgeBaseIds, content, { signal: options.signal });
+    console.log(`📚 [Knowledge] 检索到 ${citations.length} 个相关片段`);
+    return citations;
+  } catch (error) {
+    if (isAbortError(error, options.signal)) throw error;
+    console.error('❌ [Knowledge] 知识库检索失败:', error);
+    return [];
   }
+};
 
-  // 2. 尝试解析 content 为 JSON（Ollama 原生格式）
-  if (chunkContent) {
-    try {
-      const parsed = JSON.parse(chunkContent);
-
-      if (parsed.message) {
-        if (parsed.message.thinking) {
-          results.push({ type: 'thinking', content: parsed.message.thinking });
-        }
-        if (parsed.message.content) {
-          results.push({ type: 'content', content: parsed.message.content });
-        }
-      }
-    } catch (e) {
-      // 非 JSON 格式，作为普通 content 处理
-      console.log('⚠️ [Stream Chunk] JSON 解析失败，作为普通内容处理:', e);
-      if (chunkContent) {
-        results.push({ type: 'content', content: chunkContent });
-      }
-    }
-  }
+// 将检索到的资料并入系统提示词
+const withKnowledge = (systemPrompt: string, citations: Citation[]) =>
+  citations.length > 0 ? `${systemPrompt}\n\n${formatCitations(citations)}` : systemPrompt;
 
-  return results;
+/**
+ * 组装带多轮历史的消息列表
+ */
+const buildMessages = (content: string, systemPrompt: string, options: ChatRequestOptions) => {
+  // 知识库检索期间可能已经中断，不再继续组装和发送请求
+  options.signal?.throwIfAborted();
+  return buildContextMessages({
+    systemPrompt,
+    history: options.history ?? [],
+    content,
+    attachments: options.attachments,
+    config: currentConfig,
+    summarize: transcript => summarizeHistory(transcript, options.signal),
+  });
 };
 
 /**
  * 普通聊天 - 非流式
- * 使用 ollama.invoke
+ * 使用 chatModel.invoke
  */
 export const sendMessage = async (
   content: string,
-  systemPrompt?: string
-): Promise<{ thinking?: string; content: string }> => {
-  const ollama = getOllamaInstance();
-  const messages = [];
+  systemPrompt?: string,
+  options: ChatRequestOptions = {}
+): Promise<{ thinking?: string; content: string; citations: Citation[]; usage?: TokenUsage; model?: string }> => {
+  try {
+    const chatModel = getChatModel();
+    const citations = await retrieveKnowledge(content, options);
+    const messages = await buildMessages(content, withKnowledge(systemPrompt || '你是一个AI助手', citations), options);
 
-  if (systemPrompt) {
-    messages.push(new SystemMessage(systemPrompt));
-  }
-  messages.push(new HumanMessage(content));
+    const response = await chatModel.invoke(messages, { signal: options.signal });
 
-  const response = await ollama.invoke(messages);
-  const responseText = getContentAsString(response.content);
+    // 与流式输出相同的解析，分离思考内容和 <think> 标签
+    const parser = createStreamParser();
+    const chunks = [...parser.push(response), ...parser.flush()];
+    const textOf = (type: StreamChunk['type']) => chunks.filter(c => c.type === type).map(c => c.content).join('');
+    const usageChunk = chunks.find(c => c.type === 'usage');
 
-  return { thinking: undefined, content: responseText };
+    return {
+      thinking: textOf('thinking') || undefined,
+      content: textOf('content'),
+      citations,
+      usage: usageChunk?.usage,
+      model: usageChunk?.model,
+    };
+  } catch (error) {
+    if (isAbortError(error, options.signal)) throw error;
+    console.error('❌ [Chat] 错误:', error);
+    throw await toChatError(error, options.signal);
+  }
+};
+
+/**
+ * 根据第一轮问答生成简短的会话标题
+ */
+export const generateTitle = async (userMessage: string, assistantMessage: string): Promise<string> => {
+  const chatModel = getChatModel();
+  const response = await chatModel.invoke([
+    new SystemMessage('根据下面的一轮对话，生成一个不超过15个字的中文标题。只输出标题本身，不要标点和引号。'),
+    new HumanMessage(`用户：${userMessage}\n助手：${assistantMessage.slice(0, 500)}`),
+  ]);
+  // 去掉可能混入的思考标签和引号
+  const title = getContentAsString(response.content)
+    .replace(/<think>[\s\S]*?<\/think>/g, '')
+    .replace(/["'“”‘’《》]/g, '')
+    .trim()
+    .split('\n')[0];
+  if (!title) {
+    throw new Error('标题为空');
+  }
+  return title.slice(0, 30);
 };
 
 /**
  * 普通聊天 - 流式
- * 使用 ollama.stream，支持 Ollama 原生思考模式
+ * 使用 chatModel.stream，支持各服务的思考模式
  */
 export const chatStream = async function* (
   content: string,
-  systemPrompt?: string
+  systemPrompt?: string,
+  options: ChatRequestOptions = {}
 ): AsyncGenerator<StreamChunk> {
-  const messages = [];
-  messages.push(new SystemMessage(systemPrompt || '你是一个AI助手'));
-  messages.push(new HumanMessage(content));
-
   try {
-    const ollama = getOllamaInstance();
-
-    for await (const chunk of await ollama.stream(messages)) {
-      const chunks = parseStreamChunk(chunk);
-      for (const c of chunks) {
-        yield c;
-      }
+    const chatModel = getChatModel();
+    const citations = await retrieveKnowledge(content, options);
+    if (citations.length > 0) {
+      yield { type: 'citations', content: '', citations };
     }
+    const messages = await buildMessages(content, withKnowledge(systemPrompt || '你是一个AI助手', citations), options);
+
+    yield* parseStream(await chatModel.stream(messages, { signal: options.signal }));
   } catch (error) {
+    if (isAbortError(error, options.signal)) throw error;
     console.error('❌ [Chat Stream] 错误:', error);
-    throw new Error('流式响应失败');
+    throw await toChatError(error, options.signal);
   }
 };
 
+// 智能工具调用的最大迭代次数，防止模型陷入无限工具调用
+const MAX_TOOL_ITERATIONS = 5;
+
 /**
- * 定义 LangChain 工具
+ * 流式输出的同时拼接完整消息，工具调用直接从拼接结果中读取，每轮只请求一次模型
+ * @returns 拼接后的完整消息（流为空时为 null）
  */
-
-// 天气查询工具
-const weatherTool = new DynamicStructuredTool({
-  name: 'getWeather',
-  description: '查询指定城市的实时天气信息，包括温度、湿度、风向等',
-  schema: z.object({
-    location: z.string().describe('城市名称，例如：北京、上海、广州等'),
-  }),
-  func: async ({ location }) => {
-    console.log(`🌤️ [Tool Call] 调用天气查询工具: ${location}`);
-    const weatherData = await getWeatherByCity({ location });
-
-    if (weatherData) {
-      return JSON.stringify(weatherData);
-    } else {
-      throw new Error('查询天气失败，请检查城市名称是否正确');
-    }
-  },
-});
-
-// 用户信息提取工具
-const extractUserTool = new DynamicStructuredTool({
-  name: 'extractUserInfo',
-  description: '从用户的自然语言描述中提取结构化的用户信息，包括姓名、年龄、邮箱、手机、地址、职业、兴趣爱好等',
-  schema: z.object({
-    content: z.string().describe('用户的自然语言描述'),
-  }),
-  func: async ({ content }) => {
-    console.log(`👤 [Tool Call] 调用用户信息提取工具`);
-    const userInfo = await extractUserInfo({ content });
-
-    if (userInfo) {
-      return JSON.stringify(userInfo);
-    } else {
-      throw new Error('提取用户信息失败，请提供更详细的信息');
-    }
-  },
-});
+async function* streamMessage(stream: AsyncIterable<AIMessageChunk>): AsyncGenerator<StreamChunk, AIMessageChunk | null> {
+  const parser = createStreamParser();
+  let message: AIMessageChunk | null = null;
+  for await (const chunk of stream) {
+    message = message ? message.concat(chunk) : chunk;
+    yield* parser.push(chunk);
+  }
+  yield* parser.flush();
+  return message;
+}
 
 /**
  * 智能工具调用 - 流式版本，使用 bindTools 方式
- * 让模型自动决定是否调用工具，支持思考过程展示
+ * ReAct 循环：模型决定调用工具 → 执行工具 → 结果以 ToolMessage 回传给模型 → 模型继续推理，
+ * 直到模型不再调用工具并给出最终回答，或达到最大迭代次数
  * @param content 用户输入内容
+ * @param options.enabledTools 当前会话启用的工具名称，不传则使用全部已注册工具
  * @returns 流式输出，包含思考内容、普通内容或工具调用结果
  */
 export async function* smartChatStream(
   content: string,
-  systemPrompt?: string
-): AsyncGenerator<StreamChunk, { toolCall?: ToolCallResult }> {
-  const ollama = new ChatOllama({
-    baseUrl: currentConfig.baseUrl,
-    model: currentConfig.model,
-    temperature: 0.1,
-    think: currentConfig.showThinking,
-  });
+  systemPrompt?: string,
+  options: ChatRequestOptions & { enabledTools?: string[] } = {}
+): AsyncGenerator<StreamChunk, { toolCalls: ToolCallResult[] }> {
+  const chatModel = createChatModel(currentConfig);
 
-  // 使用 bindTools 绑定工具
-  const ollamaWithTools = ollama.bindTools([weatherTool, extractUserTool]);
+  // 从工具注册表获取当前启用的工具，并使用 bindTools 绑定
+  const { signal } = options;
+  const tools = listTools(options.enabledTools);
+  const modelWithTools = chatModel.bindTools(tools.map(toLangChainTool));
 
   const defaultSystemPrompt = `你是一个智能助手，可以根据用户的需求调用相应的工具来获取信息。
 
 可用的工具：
-1. getWeather: 查询城市天气
-2. extractUserInfo: 提取用户信息
+${describeTools(tools) || '（当前没有启用任何工具）'}
 
-当用户询问天气或提供个人信息时，请主动调用对应的工具。
+当用户的问题需要用到上述工具时，请主动调用对应的工具，可以多次或连续调用。
+拿到工具结果后，请基于结果用自然语言回答用户。
 其他情况下，直接回答用户的问题。`;
 
+  const toolCalls: ToolCallResult[] = [];
+
   try {
-    const messages = [
-      new SystemMessage(systemPrompt || defaultSystemPrompt),
-      new HumanMessage(content),
-    ];
-
-    // 流式输出思考过程和内容
-    for await (const chunk of await ollamaWithTools.stream(messages)) {
-      const chunks = parseStreamChunk(chunk);
-      for (const c of chunks) {
-        yield c;
-      }
+    const citations = await retrieveKnowledge(content, options);
+    if (citations.length > 0) {
+      yield { type: 'citations', content: '', citations };
     }
+    const messages: BaseMessage[] = await buildMessages(
+      content,
+      withKnowledge(systemPrompt || defaultSystemPrompt, citations),
+      options
+    );
+
+    for (let iteration = 0; iteration < MAX_TOOL_ITERATIONS; iteration++) {
+      // 流式输出思考过程和内容，同时拼接完整响应以检测工具调用
+      const fullResponse = yield* streamMessage(await modelWithTools.stream(messages, { signal }));
+
+      if (fullResponse?.invalid_tool_calls?.length) {
+        console.warn(`⚠️ [Tool Loop] 第 ${iteration + 1} 轮存在无法解析的工具调用:`, fullResponse.invalid_tool_calls);
+      }
+      if (!fullResponse?.tool_calls || fullResponse.tool_calls.length === 0) {
+        console.log(`🔍 [Tool Loop] 第 ${iteration + 1} 轮未检测到工具调用，结束`);
+        return { toolCalls };
+      }
 
-    // 获取完整的响应以检测工具调用
-    const fullResponse = await ollamaWithTools.invoke(messages);
-
-    // 检查是否有工具调用
-    if (fullResponse.tool_calls && fullResponse.tool_calls.length > 0) {
-      console.log('🔍 [Tool Detection] 检测到工具调用:', fullResponse.tool_calls);
+      console.log(`🔍 [Tool Loop] 第 ${iteration + 1} 轮检测到工具调用:`, fullResponse.tool_calls);
+      messages.push(fullResponse);
 
-      // 处理工具调用
+      // 依次执行本轮的全部工具调用，结果以 ToolMessage 回传给模型
       for (const toolCall of fullResponse.tool_calls) {
-        const toolName = toolCall.name;
-        const toolArgs = toolCall.args as Record<string, unknown>;
-
-        let toolResult: ToolCallResult | null = null;
-
-        if (toolName === 'getWeather') {
-          yield { type: 'content', content: '\n\n🔍 正在查询天气...\n' };
-          const location = toolArgs.location as string;
-          const weatherData = await getWeatherByCity({ location });
-          if (weatherData) {
-            toolResult = {
-              toolName: 'getWeather',
-              success: true,
-              result: weatherData,
-            };
-          } else {
-            toolResult = {
-              toolName: 'getWeather',
-              success: false,
-              error: '查询天气失败，请检查城市名称是否正确',
-            };
-          }
-        } else if (toolName === 'extractUserInfo') {
-          yield { type: 'content', content: '\n\n🔍 正在提取用户信息...\n' };
-          const content = toolArgs.content as string;
-          const userInfo = await extractUserInfo({ content });
-          if (userInfo) {
-            toolResult = {
-              toolName: 'extractUserInfo',
-              success: true,
-              result: userInfo,
-            };
-          } else {
-            toolResult = {
-              toolName: 'extractUserInfo',
-              success: false,
-              error: '提取用户信息失败，请提供更详细的信息',
-            };
-          }
-        }
-
-        if (toolResult) {
-          // 发送工具调用结果
-          yield { type: 'tool_call', content: '', toolCall: toolResult };
-
-          // 格式化工具结果并输出
-          if (toolResult.success && toolResult.result) {
-            let formattedContent = '';
-
-            if (toolResult.toolName === 'getWeather') {
-              const weather = toolResult.result as WeatherData;
-              formattedContent = `🌤️ ${weather.location.name}天气情况：
-温度：${weather.now.temp}°C（体感 ${weather.now.feelsLike}°C）
-天气：${weather.now.text}
-湿度：${weather.now.humidity}%
-风向：${weather.now.windDir}
-风力：${weather.now.windScale}
-气压：${weather.now.pressure}hPa
-能见度：${weather.now.vis}km
-降水量：${weather.now.precip}mm
-观测时间：${weather.now.obsTime}`;
-
-              if (weather.location.adm2 || weather.location.adm1) {
-                const region = [weather.location.adm2, weather.location.adm1].filter(Boolean).join('，');
-                formattedContent = `🌤️ ${weather.location.name}（${region}）天气情况：\n` + formattedContent.substring(formattedContent.indexOf('\n') + 1);
-              }
-            } else if (toolResult.toolName === 'extractUserInfo') {
-              const user = toolResult.result as User;
-              formattedContent = `👤 用户信息：
-姓名：${user.name}
-年龄：${user.age}岁
-邮箱：${user.email}
-手机号：${user.phone}
-地址：${user.address.city} ${user.address.district} ${user.address.street}${user.occupation ? `\n职业：${user.occupation}` : ''}
-兴趣爱好：${user.hobbies.join('、')}`;
-            }
-
-            yield { type: 'content', content: formattedContent };
-          } else {
-            yield { type: 'content', content: toolResult.error || '工具调用失败' };
-          }
-
-          return { toolCall: toolResult };
-        }
+        const toolResult = await runTool(toolCall.name, toolCall.args as Record<string, unknown>, {
+          id: toolCall.id,
+          signal,
+          config: currentConfig,
+        });
+        toolCalls.push(toolResult);
+        yield { type: 'tool_call', content: '', toolCall: toolResult };
+
+        messages.push(new ToolMessage({
+          tool_call_id: toolCall.id ?? toolCall.name,
+          name: toolCall.name,
+          content: formatToolResult(toolResult),
+        }));
       }
     }
 
-    // 没有工具调用
-    console.log('🔍 [Tool Detection] 未检测到工具调用');
-    return {};
+    // 达到最大迭代次数：不再提供工具，要求模型基于已有结果直接回答
+    console.warn(`⚠️ [Tool Loop] 达到最大迭代次数 ${MAX_TOOL_ITERATIONS}，生成最终回答`);
+    messages.push(new HumanMessage('请不要再调用工具，直接根据以上工具结果回答我的问题。'));
+    yield* parseStream(await chatModel.stream(messages, { signal }));
+    return { toolCalls };
   } catch (error) {
-    console.error('❌ [Tool Detection] 错误:', error);
-    yield { type: 'content', content: '工具调用发生错误' };
-    return {};
+    if (isAbortError(error, signal)) throw error;
+    console.error('❌ [Tool Loop] 错误:', error);
+    throw await toChatError(error, signal);
   }
 }
 
 /**
- * Agent 模式 - 流式提取用户信息
- * 从用户自然语言中提取结构化用户信息
+ * Agent 模式 - 流式结构化提取
+ * 按提取模板的 JSON Schema 约束模型输出，从用户自然语言中提取结构化数据，可结合之前的对话内容；
+ * 校验未通过时把问题反馈给模型修正，最多 MAX_REPAIR_ATTEMPTS 次，最终返回问题最少的部分结果
+ * @param options.schema 提取模板，默认为用户信息
  */
 export const executeAgentStream = async function* (
-  content: string
-): AsyncGenerator<StreamChunk, { result?: User; content: string }> {
-  const showThinking = currentConfig.showThinking;
-  const systemPrompt = `从用户描述中提取以下信息并返回JSON格式：
-- 姓名 (name)
-- 年龄 (age)
-- 邮箱 (email)
-- 手机号 (phone)
-- 地址 (address): 包含城市(city)、区县(district)、街道(street)
-- 职业 (occupation)
-- 兴趣爱好 (hobbies) - 数组格式
-
-返回格式示例：
-
-{
-  "name": "张三",
-  "age": 25,
-  "email": "zhangsan@example.com",
-  "phone": "13800138000",
-  "address": {
-    "city": "北京",
-    "district": "朝阳区",
-    "street": "建国路88号"
-  },
-  "occupation": "软件工程师",
-  "hobbies": ["编程", "阅读", "旅行"]
-}
-
-注意：如果没有解析到值的字段，请不要返回该字段。
-${showThinking ? '\n\n请先思考如何提取这些信息。' : ''}`;
-
-  const messages = [
-    new SystemMessage(systemPrompt),
-    new HumanMessage(content),
-  ];
+  content: string,
+  options: ChatRequestOptions & { schema?: ExtractionSchema } = {}
+): AsyncGenerator<StreamChunk, { result?: ExtractionResult; content: string }> {
+  const schema = options.schema ?? findSchema(BUILTIN_SCHEMAS);
+  const systemPrompt = buildExtractionPrompt(schema, currentConfig.showThinking);
 
-  let fullText = '';
   try {
-    const ollama = getOllamaInstance();
-
-    for await (const chunk of await ollama.stream(messages)) {
-      const chunks = parseStreamChunk(chunk);
-      for (const c of chunks) {
-        yield c;
-        fullText += c.content;
+    const chatModel = createChatModel(currentConfig, schema.jsonSchema);
+    const messages = await buildMessages(content, systemPrompt, options);
+
+    let best: ExtractionResult | null = null;
+    let previous: ExtractionResult | null = null;
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+      let fullText = '';
+      for await (const chunk of parseStream(await chatModel.stream(messages, { signal: options.signal }))) {
+        yield chunk;
+        if (chunk.type === 'content') {
+          fullText += chunk.content;
+        }
       }
-    }
-
-    // 解析 JSON 结果
-    console.log('📄 [Agent Stream] finalContent:', fullText);
-    const jsonMatch = fullText.match(/```json\n?([\s\S]*?)```/) || fullText.match(/\{[\s\S]*\}/);
-    const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : fullText;
-
-    const userData = JSON.parse(jsonStr);
 
-    console.log('📄 [Agent Stream] userData:', userData);
-
-    // 使用 Zod 验证
-    const validatedUser = UserSchema.parse(userData);
+      // 解析并校验 JSON 结果
+      console.log(`📄 [Agent Stream] 第 ${attempt} 次输出:`, fullText);
+      const result = parseExtraction(fullText, schema, attempt);
+      best = pickBetterResult(best, result);
+      if (attempt > MAX_REPAIR_ATTEMPTS || !needsRepair(result, previous)) break;
+
+      // 把校验问题反馈给模型修正
+      console.warn('🔁 [Agent Stream] 校验未通过，请求模型修正:', result.issues);
+      yield { type: 'content', content: `\n\n> 🔁 校验未通过，正在修正（第 ${attempt} 次）\n\n` };
+      messages.push(new AIMessage(fullText), new HumanMessage(buildRepairPrompt(result.issues ?? [])));
+      previous = result;
+    }
 
+    const issueCount = best!.issues?.length ?? 0;
+    console.log('📄 [Agent Stream] result:', best);
     return {
-      result: validatedUser,
-      content: '已成功提取用户信息',
+      result: best!,
+      content: issueCount > 0 ? `已提取${schema.name}，${issueCount} 个字段需要确认` : `已成功提取${schema.name}`,
     };
   } catch (error) {
-    console.error('Agent 执行错误:', error);
-    return {
-      result: undefined,
-      content: '提取用户信息失败',
-    };
+    if (isAbortError(error, options.signal)) throw error;
+    console.error('❌ [Agent Stream] 错误:', error);
+    throw await toChatError(error, options.signal);
   }
 };
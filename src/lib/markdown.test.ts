@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { closeOpenBlocks, splitMarkdownBlocks } from './markdown';
+
+describe('splitMarkdownBlocks', () => {
+  it('按空行切分段落', () => {
+    expect(splitMarkdownBlocks('第一段\n\n\n第二段\n')).toEqual(['第一段', '第二段']);
+  });
+
+  it('代码块和公式块内部的空行不切分', () => {
+    const code = '```ts\nconst a = 1;\n\nconst b = 2;\n```';
+    const math = '$$\na = b\n\nc = d\n$$';
+    expect(splitMarkdownBlocks(`${code}\n\n${math}`)).toEqual([code, math]);
+  });
+
+  it('空行后是缩进的行时不切分', () => {
+    const list = '1. 第一步\n\n    - 子项\n\n2. 第二步\n\n   第二步的补充说明';
+    expect(splitMarkdownBlocks(list)).toEqual(['1. 第一步\n\n    - 子项', '2. 第二步\n\n   第二步的补充说明']);
+  });
+});
+
+describe('closeOpenBlocks', () => {
+  it('补全未闭合的代码块和公式块', () => {
+    expect(closeOpenBlocks('````md\n```')).toBe('````md\n```\n````');
+    expect(closeOpenBlocks('$$\na = b')).toBe('$$\na = b\n$$');
+    expect(closeOpenBlocks('```\ncode\n```')).toBe('```\ncode\n```');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Markdown 流式渲染辅助函数
+ */
+import { defaultSchema } from 'rehype-sanitize';
+
+// 在默认白名单基础上保留 remark-math 生成的公式 class，先清洗再交给 KaTeX 和代码高亮
+export const MARKDOWN_SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})/;
+
+/**
+ * 流式输出时将 Markdown 按空行切分为块，只有最后一块在变化，前面的块可以复用渲染结果
+ * 代码块和 $$ 公式块内部的空行不切分；空行后是缩进的行（嵌套列表、列表项的后续段落）时也不切分。
+ * 切分后脚注和引用式链接无法跨块解析，输出完成后应整体渲染
+ */
+export const splitMarkdownBlocks = (markdown: string): string[] => {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let blankLines = 0; // 尚未确定是否切分的空行数
+  let fence: string | null = null;
+  let inMathBlock = false;
+
+  for (const line of markdown.split('\n')) {
+    if (line.trim() === '' && !fence && !inMathBlock) {
+      blankLines++;
+      continue;
+    }
+    if (blankLines > 0 && current.length > 0) {
+      if (/^[ \t]/.test(line)) {
+        current.push(...Array<string>(blankLines).fill(''));
+      } else {
+        blocks.push(current.join('\n'));
+        current = [];
+      }
+    }
+    blankLines = 0;
+
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    } else if (!fence && line.trim() === '$$') {
+      inMathBlock = !inMathBlock;
+    }
+    current.push(line);
+  }
+
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+  return blocks;
+};
+
+/**
+ * 补全流式输出中尚未闭合的代码块和公式块，避免半截内容渲染错乱
+ */
+export const closeOpenBlocks = (markdown: string): string => {
+  let fence: string | null = null;
+  let mathOpen = false;
+
+  for (const line of markdown.split('\n')) {
+    const fenceMatch = line.match(FENCE_PATTERN);
+    if (fenceMatch) {
+      const marker = fenceMatch[1];
+      if (!fence) {
+        fence = marker;
+      } else if (marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = null;
+      }
+    } else if (!fence && line.trim() === '$$') {
+      mathOpen = !mathOpen;
+    }
+  }
+
+  if (fence) return `${markdown}\n${fence}`;
+  if (mathOpen) return `${markdown}\n$$`;
+  return markdown;
+};
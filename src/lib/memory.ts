@@ -0,0 +1,233 @@
+import {
+  AIMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+  type BaseMessage,
+  type MessageContent,
+} from '@langchain/core/messages';
+import type { Attachment, ChatMessage, OllamaConfig } from '../types';
+import { formatToolResult } from '../tools';
+import { chunkText } from './attachments';
+
+/**
+ * 多轮对话记忆
+ * 将 useChat 中的 ChatMessage 历史转换为 LangChain 消息，并按上下文窗口预算裁剪或摘要
+ */
+
+// 摘要函数：由调用方注入，避免与模型实例管理产生循环依赖
+export type HistorySummarizer = (transcript: string) => Promise<string>;
+
+export interface BuildContextOptions {
+  systemPrompt: string;
+  history: ChatMessage[];
+  content: string;
+  attachments?: Attachment[]; // 当前消息的附件
+  config: Pick<OllamaConfig, 'contextWindow' | 'maxTokens' | 'memoryStrategy'>;
+  summarize?: HistorySummarizer;
+}
+
+// 已生成的摘要缓存，key 为被压缩的最后一条消息 ID，避免每轮重复摘要
+const summaryCache = new Map<string, string>();
+
+/**
+ * 粗略估算文本的 token 数
+ * 中日韩字符按 1 token/字，其余按 4 字符/token 计算
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cjk = text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+// 单张图片大致占用的 token 数（各视觉模型不同，按常见值估算）
+const IMAGE_TOKENS = 768;
+
+const getDocuments = (attachments: Attachment[] = []) => attachments.filter(a => a.kind === 'document' && a.text);
+const getImages = (attachments: Attachment[] = []) => attachments.filter(a => a.kind === 'image' && a.dataUrl);
+
+/**
+ * 将文档附件分段放入上下文，超出 token 预算的片段被省略
+ */
+const formatDocuments = (attachments: Attachment[] | undefined, budget = Infinity): string => {
+  const sections: string[] = [];
+  let remaining = budget;
+  for (const doc of getDocuments(attachments)) {
+    const chunks = chunkText(doc.text!);
+    const included: string[] = [];
+    for (const chunk of chunks) {
+      const cost = estimateTokens(chunk);
+      if (cost > remaining) break;
+      remaining -= cost;
+      included.push(chunk);
+    }
+    const omitted = chunks.length - included.length;
+    const note = omitted > 0 || doc.truncated ? '\n（文件过长，后续内容已省略）' : '';
+    sections.push(`<file name="${doc.name}">\n${included.join('\n\n')}${note}\n</file>`);
+    if (omitted > 0) {
+      console.log(`🧠 [Memory] 文件 ${doc.name} 超出上下文预算，省略 ${omitted}/${chunks.length} 段`);
+    }
+  }
+  return sections.length > 0 ? `\n\n以下是用户上传的文件内容：\n${sections.join('\n')}` : '';
+};
+
+/**
+ * 组装用户消息内容：文档文字拼接在正文后，有图片时使用多模态内容
+ */
+const toUserContent = (text: string, attachments: Attachment[] | undefined, documents: string): MessageContent => {
+  const images = getImages(attachments);
+  if (images.length === 0) {
+    return text + documents;
+  }
+  return [
+    { type: 'text', text: text + documents },
+    ...images.map(image => ({ type: 'image_url' as const, image_url: { url: image.dataUrl! } })),
+  ];
+};
+
+// assistant 消息的正文：提取结果的正文只是摘要，回放时附上提取的数据
+const assistantContent = (message: ChatMessage) =>
+  message.extraction ? `${message.content}\n\n${JSON.stringify(message.extraction.data)}` : message.content;
+
+/**
+ * 将单条 ChatMessage 转换为 LangChain 消息
+ * 带工具调用的 assistant 消息会展开为 AIMessage(tool_calls) + ToolMessage + AIMessage(回复)
+ */
+const toLangChainMessages = (message: ChatMessage): BaseMessage[] => {
+  if (message.role === 'user') {
+    return [new HumanMessage({
+      content: toUserContent(message.content, message.attachments, formatDocuments(message.attachments)),
+    })];
+  }
+  if (message.role === 'system') {
+    return [new SystemMessage(message.content)];
+  }
+
+  const result: BaseMessage[] = [];
+  const toolCalls = (message.toolCalls ?? []).filter(call => call.id);
+  if (toolCalls.length > 0) {
+    result.push(new AIMessage({
+      content: '',
+      tool_calls: toolCalls.map(call => ({
+        id: call.id,
+        name: call.toolName,
+        args: call.args ?? {},
+        type: 'tool_call' as const,
+      })),
+    }));
+    for (const call of toolCalls) {
+      result.push(new ToolMessage({
+        tool_call_id: call.id!,
+        name: call.toolName,
+        content: formatToolResult(call),
+      }));
+    }
+  }
+  if (message.content) {
+    result.push(new AIMessage(assistantContent(message)));
+  }
+  return result;
+};
+
+/**
+ * 估算单条消息（含工具结果）占用的 token 数
+ */
+const estimateMessageTokens = (message: ChatMessage): number => {
+  const toolTokens = (message.toolCalls ?? []).reduce(
+    (sum, call) => sum + estimateTokens(JSON.stringify(call.args ?? {}) + JSON.stringify(call.result ?? call.error ?? '')),
+    0
+  );
+  const attachmentTokens = estimateTokens(formatDocuments(message.attachments))
+    + getImages(message.attachments).length * IMAGE_TOKENS;
+  // 每条消息额外计入少量角色/格式开销
+  const content = message.role === 'assistant' ? assistantContent(message) : message.content;
+  return estimateTokens(content) + toolTokens + attachmentTokens + 4;
+};
+
+/**
+ * 按 user 消息切分对话轮次，保证裁剪时不会拆散一问一答
+ */
+const groupTurns = (history: ChatMessage[]): ChatMessage[][] => {
+  const turns: ChatMessage[][] = [];
+  for (const message of history) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+};
+
+/**
+ * 将被裁剪的历史压缩为摘要文本
+ */
+const summarizeTurns = async (dropped: ChatMessage[], summarize: HistorySummarizer): Promise<string | null> => {
+  const cacheKey = dropped[dropped.length - 1].id;
+  const cached = summaryCache.get(cacheKey);
+  if (cached) return cached;
+
+  const transcript = dropped
+    .map(message => {
+      const files = message.attachments?.map(a => a.name).join('、');
+      return `${message.role === 'user' ? '用户' : '助手'}：${message.content}${files ? `（附件：${files}）` : ''}`;
+    })
+    .join('\n');
+
+  try {
+    const summary = await summarize(transcript);
+    summaryCache.set(cacheKey, summary);
+    return summary;
+  } catch (error) {
+    console.warn('⚠️ [Memory] 历史摘要失败，改为直接裁剪:', error);
+    return null;
+  }
+};
+
+/**
+ * 构建发送给模型的完整消息列表
+ * 从最新的轮次向前保留，直到超出 contextWindow - maxTokens 的预算；
+ * 超出部分根据 memoryStrategy 丢弃或压缩为摘要
+ */
+export const buildContextMessages = async (options: BuildContextOptions): Promise<BaseMessage[]> => {
+  const { systemPrompt, history, content, attachments, config, summarize } = options;
+
+  // 为模型输出预留 maxTokens，剩余部分分配给系统提示词、历史与当前输入
+  let budget = config.contextWindow - config.maxTokens - estimateTokens(systemPrompt) - estimateTokens(content)
+    - getImages(attachments).length * IMAGE_TOKENS;
+
+  // 当前消息的文件优先放入上下文，剩余预算再分配给历史
+  const documents = formatDocuments(attachments, budget);
+  budget -= estimateTokens(documents);
+
+  const turns = groupTurns(history);
+  const kept: ChatMessage[][] = [];
+  let index = turns.length - 1;
+  for (; index >= 0; index--) {
+    const cost = turns[index].reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+    if (cost > budget) break;
+    budget -= cost;
+    kept.unshift(turns[index]);
+  }
+  const dropped = turns.slice(0, index + 1).flat();
+
+  let system = systemPrompt;
+  if (dropped.length > 0) {
+    console.log(`🧠 [Memory] 上下文超出预算，${config.memoryStrategy === 'summarize' ? '摘要' : '裁剪'} ${dropped.length} 条早期消息`);
+    if (config.memoryStrategy === 'summarize' && summarize) {
+      const summary = await summarizeTurns(dropped, summarize);
+      if (summary) {
+        // 摘要并入系统提示词，保证消息列表中只有一条 SystemMessage
+        system += `\n\n以下是之前对话的摘要：\n${summary}`;
+      }
+    }
+  }
+
+  const messages: BaseMessage[] = [new SystemMessage(system)];
+  for (const message of kept.flat()) {
+    messages.push(...toLangChainMessages(message));
+  }
+  messages.push(new HumanMessage({ content: toUserContent(content, attachments, documents) }));
+
+  return messages;
+};
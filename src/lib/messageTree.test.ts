@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { ChatMessage } from '../types';
+import { breakCycles, findLeaf, getActivePath } from './messageTree';
+
+const message = (id: string, parentId: string | null, timestamp: number): ChatMessage => ({
+  id,
+  parentId,
+  role: timestamp % 2 === 0 ? 'user' : 'assistant',
+  content: id,
+  timestamp,
+});
+
+describe('messageTree', () => {
+  it('按当前叶子取出路径，向下查找最新的分支', () => {
+    const messages = [message('a', null, 0), message('b', 'a', 1), message('c', 'a', 3), message('d', 'c', 4)];
+    expect(getActivePath(messages, 'd').map(item => item.id)).toEqual(['a', 'c', 'd']);
+    expect(findLeaf(messages, 'a')).toBe('d');
+  });
+
+  it('parentId 形成环时不会死循环', () => {
+    const messages = [message('a', 'b', 0), message('b', 'a', 1)];
+    expect(getActivePath(messages, 'a').map(item => item.id)).toEqual(['b', 'a']);
+    expect(findLeaf(messages, 'a')).toBe('b');
+  });
+
+  it('breakCycles 断开环和指向不存在消息的 parentId', () => {
+    const messages = [message('a', 'c', 0), message('b', 'a', 1), message('c', 'b', 2), message('d', 'x', 3)];
+    const fixed = breakCycles(messages);
+    expect(fixed.map(item => item.parentId)).toEqual([null, 'a', 'b', null]);
+    expect(getActivePath(fixed, 'c').map(item => item.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('没有问题时返回原数组', () => {
+    const messages = [message('a', null, 0), message('b', 'a', 1)];
+    expect(breakCycles(messages)).toBe(messages);
+  });
+});
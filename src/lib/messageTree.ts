@@ -0,0 +1,121 @@
+import type { ChatMessage, ChatSession } from '../types';
+
+/**
+ * 消息树
+ * 会话中的消息通过 parentId 组成一棵树：重新生成回答或编辑提问会在同一父节点下产生新的分支，
+ * 当前显示的对话是从根节点到 currentLeafId 的路径
+ */
+
+/**
+ * 获取某条消息的子消息，按创建时间排序
+ */
+export const getChildren = (messages: ChatMessage[], parentId: string | null): ChatMessage[] =>
+  messages
+    .filter(message => (message.parentId ?? null) === parentId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * 获取某条消息的兄弟消息（含自身），即同一父节点下的所有分支
+ */
+export const getSiblings = (messages: ChatMessage[], message: ChatMessage): ChatMessage[] =>
+  getChildren(messages, message.parentId ?? null);
+
+/**
+ * 从指定消息向下找到叶子节点，每一层选择最新的分支
+ */
+export const findLeaf = (messages: ChatMessage[], fromId: string): string => {
+  let leafId = fromId;
+  // 数据中存在环时停在回到已访问节点之前
+  const visited = new Set([leafId]);
+  for (;;) {
+    const children = getChildren(messages, leafId);
+    const next = children[children.length - 1]?.id;
+    if (!next || visited.has(next)) return leafId;
+    visited.add(next);
+    leafId = next;
+  }
+};
+
+/**
+ * 获取从根节点到叶子节点的消息路径
+ */
+export const getActivePath = (messages: ChatMessage[], leafId: string | null | undefined): ChatMessage[] => {
+  if (!leafId) return [];
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const path: ChatMessage[] = [];
+  const visited = new Set<string>();
+  let current = byId.get(leafId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+/**
+ * 计算路径上每条消息所在分支的位置，如 { index: 1, total: 3 } 表示 2/3
+ */
+export const getBranchInfo = (
+  messages: ChatMessage[],
+  path: ChatMessage[]
+): Record<string, { index: number; total: number }> => {
+  const info: Record<string, { index: number; total: number }> = {};
+  for (const message of path) {
+    const siblings = getSiblings(messages, message);
+    info[message.id] = { index: siblings.findIndex(s => s.id === message.id), total: siblings.length };
+  }
+  return info;
+};
+
+/**
+ * 修复 parentId：父节点不存在，或指向自身的后代（形成环）时改为根节点
+ * 导入的文件可能包含这样的数据，没有变化时返回原数组
+ */
+export const breakCycles = (messages: ChatMessage[]): ChatMessage[] => {
+  const parents = new Map(messages.map(message => [message.id, message.parentId ?? null]));
+  let changed = false;
+  for (const message of messages) {
+    const parentId = parents.get(message.id) ?? null;
+    if (parentId && !parents.has(parentId)) {
+      parents.set(message.id, null);
+      changed = true;
+      continue;
+    }
+    // 沿祖先向上查找，回到自身说明存在环，断开当前节点与父节点的连接
+    const visited = new Set<string>();
+    let ancestorId = parentId;
+    while (ancestorId && !visited.has(ancestorId)) {
+      if (ancestorId === message.id) {
+        parents.set(message.id, null);
+        changed = true;
+        break;
+      }
+      visited.add(ancestorId);
+      ancestorId = parents.get(ancestorId) ?? null;
+    }
+  }
+  return changed
+    ? messages.map(message => ({ ...message, parentId: parents.get(message.id) ?? null }))
+    : messages;
+};
+
+/**
+ * 规范化会话中的消息树：修复 parentId 形成的环；
+ * 兼容旧版本保存的扁平消息列表：按顺序串成一条链，并以最后一条消息作为当前叶子
+ */
+export const normalizeSessionTree = (session: ChatSession): ChatSession => {
+  if (session.messages.every(message => message.parentId !== undefined)) {
+    const messages = breakCycles(session.messages);
+    return messages === session.messages ? session : { ...session, messages };
+  }
+  const messages = session.messages.map((message, index) => ({
+    ...message,
+    parentId: index === 0 ? null : session.messages[index - 1].id,
+  }));
+  return {
+    ...session,
+    messages,
+    currentLeafId: messages.length > 0 ? messages[messages.length - 1].id : null,
+  };
+};
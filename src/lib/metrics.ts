@@ -0,0 +1,105 @@
+import type { ChatMessage, MessageMetrics, TokenUsage } from '../types';
+
+/**
+ * 性能指标
+ * 生成回答时记录首字延迟、总耗时和输出速度，并汇总为会话统计（token 用量、各模型的平均耗时、工具成功率）
+ */
+
+/**
+ * 计算一次生成的性能指标
+ * 输出速度优先使用 Ollama 的 eval_duration，其他服务用首字之后的耗时估算
+ * @param timing 发送、收到首个 token 和结束的时间（performance.now()）
+ */
+export const buildMetrics = (
+  timing: { startedAt: number; firstTokenAt?: number; finishedAt: number },
+  usage?: TokenUsage,
+  model?: string
+): MessageMetrics => {
+  const { startedAt, firstTokenAt, finishedAt } = timing;
+  const outputMs = usage?.outputDurationMs ?? (firstTokenAt !== undefined ? finishedAt - firstTokenAt : 0);
+  return {
+    model,
+    ttftMs: firstTokenAt !== undefined ? Math.round(firstTokenAt - startedAt) : undefined,
+    durationMs: Math.round(finishedAt - startedAt),
+    tokensPerSecond: usage?.outputTokens && outputMs > 0
+      ? Math.round((usage.outputTokens / outputMs) * 10000) / 10
+      : undefined,
+  };
+};
+
+/**
+ * 格式化耗时：1 秒以内显示毫秒，否则显示秒
+ */
+export const formatDuration = (ms: number): string =>
+  ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+// 各模型的平均性能
+export interface ModelStats {
+  model: string;
+  responses: number; // 有性能记录的回答数
+  avgDurationMs: number;
+  avgTtftMs?: number; // 流式回答的平均首字延迟
+  avgTokensPerSecond?: number;
+}
+
+// 各工具的调用结果
+export interface ToolStats {
+  toolName: string;
+  success: number;
+  failed: number;
+}
+
+// 会话统计
+export interface SessionStats {
+  messageCount: number;
+  inputTokens: number;
+  outputTokens: number;
+  models: ModelStats[];
+  tools: ToolStats[];
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+/**
+ * 汇总会话中所有回答（包括其他分支）的性能与工具调用统计
+ */
+export const summarizeSession = (messages: ChatMessage[]): SessionStats => {
+  const byModel = new Map<string, MessageMetrics[]>();
+  const byTool = new Map<string, ToolStats>();
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') continue;
+    inputTokens += message.usage?.inputTokens ?? 0;
+    outputTokens += message.usage?.outputTokens ?? 0;
+
+    if (message.metrics) {
+      const model = message.metrics.model || '未知模型';
+      byModel.set(model, [...(byModel.get(model) ?? []), message.metrics]);
+    }
+
+    for (const call of message.toolCalls ?? []) {
+      const stats = byTool.get(call.toolName) ?? { toolName: call.toolName, success: 0, failed: 0 };
+      stats[call.success ? 'success' : 'failed']++;
+      byTool.set(call.toolName, stats);
+    }
+  }
+
+  const models = [...byModel].map(([model, list]): ModelStats => ({
+    model,
+    responses: list.length,
+    avgDurationMs: average(list.map(metrics => metrics.durationMs)) ?? 0,
+    avgTtftMs: average(list.flatMap(metrics => (metrics.ttftMs !== undefined ? [metrics.ttftMs] : []))),
+    avgTokensPerSecond: average(list.flatMap(metrics => (metrics.tokensPerSecond !== undefined ? [metrics.tokensPerSecond] : []))),
+  }));
+
+  return {
+    messageCount: messages.length,
+    inputTokens,
+    outputTokens,
+    models: models.sort((a, b) => b.responses - a.responses),
+    tools: [...byTool.values()].sort((a, b) => b.success + b.failed - (a.success + a.failed)),
+  };
+};
@@ -0,0 +1,206 @@
+/**
+ * Ollama 原生 REST API 封装
+ * 用于模型管理：列出已安装模型、查看模型详情、拉取和删除模型
+ * 参考: https://github.com/ollama/ollama/blob/main/docs/api.md
+ */
+import { HttpError } from './errors';
+
+// 模型能力
+export type ModelCapability = 'completion' | 'tools' | 'thinking' | 'vision' | 'embedding' | 'insert';
+
+/**
+ * 已安装模型信息（/api/tags + /api/show 合并后的结果，其他服务只有名称）
+ */
+export interface OllamaModel {
+  name: string; // 模型名称，如 qwen3:0.6b
+  size?: number; // 模型文件大小（字节，仅 Ollama 提供）
+  modifiedAt?: string; // 最后修改时间
+  family?: string; // 模型家族，如 qwen3
+  parameterSize?: string; // 参数规模，如 751.63M
+  quantization?: string; // 量化等级，如 Q4_K_M
+  contextLength?: number; // 最大上下文长度
+  capabilities?: ModelCapability[]; // 模型能力
+}
+
+/**
+ * 拉取进度
+ */
+export interface PullProgress {
+  status: string; // 当前阶段描述
+  total?: number; // 当前层总字节数
+  completed?: number; // 当前层已下载字节数
+}
+
+/**
+ * /api/tags 响应结构
+ */
+interface OllamaTagsResponse {
+  models: Array<{
+    name: string;
+    model: string;
+    modified_at: string;
+    size: number;
+    digest: string;
+    details?: {
+      family?: string;
+      parameter_size?: string;
+      quantization_level?: string;
+    };
+  }>;
+}
+
+/**
+ * /api/show 响应结构（仅列出用到的字段）
+ */
+interface OllamaShowResponse {
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+  model_info?: Record<string, unknown>;
+  capabilities?: ModelCapability[];
+}
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.replace(/\/+$/, '');
+
+/**
+ * 发送请求并解析 JSON，非 2xx 时抛出带服务端错误信息的异常
+ */
+const requestJSON = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null) as { error?: string } | null;
+    throw new HttpError(response.status, body?.error || `请求失败: ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+/**
+ * 列出已安装的模型
+ */
+export const listModels = async (baseUrl: string, signal?: AbortSignal): Promise<OllamaModel[]> => {
+  const data = await requestJSON<OllamaTagsResponse>(`${trimBaseUrl(baseUrl)}/api/tags`, { signal });
+  return data.models.map(model => ({
+    name: model.name,
+    size: model.size,
+    modifiedAt: model.modified_at,
+    family: model.details?.family,
+    parameterSize: model.details?.parameter_size,
+    quantization: model.details?.quantization_level,
+  }));
+};
+
+/**
+ * 查看模型详情：上下文长度与能力
+ */
+export const showModel = async (
+  baseUrl: string,
+  name: string,
+  signal?: AbortSignal
+): Promise<Pick<OllamaModel, 'family' | 'parameterSize' | 'quantization' | 'contextLength' | 'capabilities'>> => {
+  const data = await requestJSON<OllamaShowResponse>(`${trimBaseUrl(baseUrl)}/api/show`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name }),
+    signal,
+  });
+
+  // 上下文长度字段名带架构前缀，如 qwen3.context_length
+  const contextEntry = Object.entries(data.model_info ?? {}).find(([key]) => key.endsWith('.context_length'));
+
+  return {
+    family: data.details?.family,
+    parameterSize: data.details?.parameter_size,
+    quantization: data.details?.quantization_level,
+    contextLength: contextEntry ? Number(contextEntry[1]) : undefined,
+    capabilities: data.capabilities,
+  };
+};
+
+/**
+ * 拉取模型，通过 onProgress 回调报告进度（NDJSON 流）
+ */
+export const pullModel = async (
+  baseUrl: string,
+  name: string,
+  onProgress: (progress: PullProgress) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const response = await fetch(`${trimBaseUrl(baseUrl)}/api/pull`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name, stream: true }),
+    signal,
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`拉取模型失败: ${response.status}`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // 每行一个 JSON 对象，最后一行可能不完整，留到下次处理
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const progress = JSON.parse(line) as PullProgress & { error?: string };
+      if (progress.error) {
+        throw new Error(progress.error);
+      }
+      onProgress(progress);
+    }
+  }
+};
+
+/**
+ * 删除模型
+ */
+export const deleteModel = async (baseUrl: string, name: string): Promise<void> => {
+  const response = await fetch(`${trimBaseUrl(baseUrl)}/api/delete`, {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model: name }),
+  });
+  if (!response.ok) {
+    throw new Error(`删除模型失败: ${response.status}`);
+  }
+};
+
+/**
+ * 将字节数格式化为易读的大小
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * 获取 Ollama 服务版本
+ */
+export const getVersion = async (baseUrl: string, signal?: AbortSignal): Promise<string> => {
+  const data = await requestJSON<{ version: string }>(`${trimBaseUrl(baseUrl)}/api/version`, { signal });
+  return data.version;
+};
+
+/**
+ * 判断两个模型名称是否指向同一模型（未写标签时默认为 latest）
+ */
+export const isSameModel = (a: string, b: string): boolean => {
+  const normalize = (name: string) => (name.includes(':') ? name : `${name}:latest`);
+  return normalize(a) === normalize(b);
+};
@@ -0,0 +1,154 @@
+/**
+ * 提示词库
+ * 保存常用的系统提示词和用户消息模板，模板中的 {{变量}} 在插入时填写；
+ * 内置若干模板，用户模板存放在 localStorage 中，可以导出为 JSON 或从 JSON 导入
+ */
+import type { PromptTemplate } from '../types';
+import { downloadFile } from './download';
+
+const PROMPTS_KEY = 'promptLibrary';
+
+export const PROMPTS_EXPORT_FORMAT = 'g-ai-chat.prompts';
+
+// JSON 导出格式（只包含用户模板）
+export interface PromptLibraryExport {
+  format: typeof PROMPTS_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  prompts: PromptTemplate[];
+}
+
+export const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    id: 'system-translator',
+    name: '翻译助手',
+    kind: 'system',
+    content: '你是一名专业翻译。请准确、流畅地翻译用户提供的内容，保留原文的格式和专有名词，不要添加解释。',
+    builtin: true,
+  },
+  {
+    id: 'system-code-reviewer',
+    name: '代码审查',
+    kind: 'system',
+    content: '你是一名资深工程师。请审查用户提供的代码，指出潜在的缺陷、性能问题和可读性问题，并给出修改建议。',
+    builtin: true,
+  },
+  {
+    id: 'user-translate',
+    name: '翻译',
+    kind: 'user',
+    content: '请把下面的内容翻译成{{目标语言}}：\n\n{{内容}}',
+    builtin: true,
+  },
+  {
+    id: 'user-summarize',
+    name: '总结',
+    kind: 'user',
+    content: '请用不超过 {{字数}} 字总结下面的内容，并列出要点：\n\n{{内容}}',
+    builtin: true,
+  },
+];
+
+/**
+ * 读取全部模板（内置模板在前）
+ */
+export const loadPrompts = (): PromptTemplate[] => {
+  try {
+    const saved = localStorage.getItem(PROMPTS_KEY);
+    return [...BUILTIN_PROMPTS, ...(saved ? JSON.parse(saved) as PromptTemplate[] : [])];
+  } catch {
+    // 解析失败，只使用内置模板
+    return BUILTIN_PROMPTS;
+  }
+};
+
+// 只持久化用户保存的模板
+const saveUserPrompts = (prompts: PromptTemplate[]) => {
+  localStorage.setItem(PROMPTS_KEY, JSON.stringify(prompts.filter(prompt => !prompt.builtin)));
+};
+
+/**
+ * 保存模板（同 ID 覆盖），返回更新后的模板列表
+ */
+export const savePrompt = (prompts: PromptTemplate[], prompt: PromptTemplate) => {
+  const exists = prompts.some(item => item.id === prompt.id);
+  const updated = exists
+    ? prompts.map(item => (item.id === prompt.id ? prompt : item))
+    : [...prompts, prompt];
+  saveUserPrompts(updated);
+  return updated;
+};
+
+/**
+ * 删除模板（内置模板不可删除），返回更新后的模板列表
+ */
+export const removePrompt = (prompts: PromptTemplate[], id: string) => {
+  const updated = prompts.filter(prompt => prompt.builtin || prompt.id !== id);
+  saveUserPrompts(updated);
+  return updated;
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+/**
+ * 按出现顺序列出模板中的变量（去重）
+ */
+export const extractVariables = (content: string): string[] =>
+  [...new Set([...content.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+/**
+ * 用填写的值替换模板中的变量，未填写的变量保持原样
+ */
+export const fillTemplate = (content: string, values: Record<string, string>): string =>
+  content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/**
+ * 导出用户模板并下载为 JSON 文件
+ */
+export const downloadPrompts = (prompts: PromptTemplate[]) => {
+  const data: PromptLibraryExport = {
+    format: PROMPTS_EXPORT_FORMAT,
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    prompts: prompts.filter(prompt => !prompt.builtin).map(({ id, name, kind, content }) => ({ id, name, kind, content })),
+  };
+  downloadFile('prompts.json', JSON.stringify(data, null, 2), 'application/json');
+};
+
+/**
+ * 解析导入的模板文件：本应用导出的 JSON，或由 { name, content, kind? } 组成的数组
+ * @throws 文件不是 JSON 或其中没有有效的模板时抛出错误
+ */
+export const parsePromptFile = (text: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('文件不是有效的 JSON');
+  }
+
+  const list = Array.isArray(data)
+    ? data
+    : (data as Partial<PromptLibraryExport> | null)?.prompts;
+  const prompts = (Array.isArray(list) ? list : []).flatMap((item): PromptTemplate[] => {
+    const { name, content, kind } = (item ?? {}) as Partial<PromptTemplate>;
+    if (typeof name !== 'string' || !name.trim() || typeof content !== 'string' || !content.trim()) return [];
+    return [{ id: crypto.randomUUID(), name: name.trim(), kind: kind === 'system' ? 'system' : 'user', content }];
+  });
+  if (prompts.length === 0) {
+    throw new Error('文件中没有有效的提示词模板');
+  }
+  return prompts;
+};
+
+/**
+ * 合并导入的模板：跳过名称、类型和内容都相同的模板，返回更新后的模板列表
+ */
+export const importPrompts = (prompts: PromptTemplate[], imported: PromptTemplate[]) => {
+  const isDuplicate = (prompt: PromptTemplate) => prompts.some(item =>
+    item.kind === prompt.kind && item.name === prompt.name && item.content === prompt.content
+  );
+  const updated = [...prompts, ...imported.filter(prompt => !isDuplicate(prompt))];
+  saveUserPrompts(updated);
+  return updated;
+};
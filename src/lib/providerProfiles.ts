@@ -0,0 +1,50 @@
+/**
+ * 服务配置档持久化
+ * 保存在 localStorage 中，与 ollamaConfig 一样刷新后保留
+ */
+import type { OllamaConfig, ProviderProfile } from '../types';
+
+const PROFILES_KEY = 'providerProfiles';
+
+/**
+ * 读取已保存的配置档
+ */
+export const loadProfiles = (): ProviderProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    return saved ? JSON.parse(saved) as ProviderProfile[] : [];
+  } catch {
+    // 解析失败，视为没有配置档
+    return [];
+  }
+};
+
+/**
+ * 保存配置档列表
+ */
+export const saveProfiles = (profiles: ProviderProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * 从当前配置创建配置档
+ */
+export const createProfile = (name: string, config: OllamaConfig): ProviderProfile => ({
+  id: crypto.randomUUID(),
+  name,
+  provider: config.provider,
+  baseUrl: config.baseUrl,
+  apiKey: config.apiKey,
+  model: config.model,
+});
+
+/**
+ * 将配置档应用到配置上，生成参数等其他设置保持不变
+ */
+export const applyProfile = (config: OllamaConfig, profile: ProviderProfile): OllamaConfig => ({
+  ...config,
+  provider: profile.provider,
+  baseUrl: profile.baseUrl,
+  apiKey: profile.apiKey,
+  model: profile.model,
+});
@@ -0,0 +1,137 @@
+/**
+ * 模型服务抽象
+ * 根据配置中的 provider 创建对应的 LangChain 聊天模型，并提供统一的模型列表接口
+ */
+import { ChatOllama } from '@langchain/ollama';
+import { ChatOpenAI } from '@langchain/openai';
+import { ChatAnthropic } from '@langchain/anthropic';
+import type { JsonSchema, OllamaConfig, ProviderType } from '../types';
+import { HttpError } from './errors';
+import { listModels, type OllamaModel } from './ollamaApi';
+
+// 所有服务的聊天模型都支持 stream / invoke / bindTools
+export type ChatModel = ChatOllama | ChatOpenAI | ChatAnthropic;
+
+// 各类服务的显示名称与默认地址
+export const PROVIDERS: Record<ProviderType, { label: string; defaultBaseUrl: string; requiresApiKey: boolean }> = {
+  ollama: { label: 'Ollama', defaultBaseUrl: 'http://localhost:11434', requiresApiKey: false },
+  openai: { label: 'OpenAI 兼容（vLLM 等）', defaultBaseUrl: 'https://api.openai.com/v1', requiresApiKey: true },
+  anthropic: { label: 'Anthropic 格式', defaultBaseUrl: 'https://api.anthropic.com', requiresApiKey: true },
+  llamacpp: { label: 'llama.cpp server', defaultBaseUrl: 'http://localhost:8080/v1', requiresApiKey: false },
+};
+
+// Anthropic 扩展思考的 token 预算
+const ANTHROPIC_THINKING_BUDGET = 1024;
+
+const trimBaseUrl = (baseUrl: string) => baseUrl.replace(/\/+$/, '');
+
+/**
+ * 按配置创建聊天模型
+ * 生成参数按各服务支持的范围传入，服务不支持的参数会被忽略
+ * @param format 要求模型按该 JSON Schema 输出（Ollama format / OpenAI response_format，Anthropic 不支持，只能依赖提示词）
+ */
+export const createChatModel = (config: OllamaConfig, format?: JsonSchema): ChatModel => {
+  const { temperature, maxTokens, topP, topK, repeatPenalty, seed } = config;
+  // 停止序列在编辑时按行保存，忽略空行
+  const stopLines = config.stop?.filter(line => line !== '');
+  const stop = stopLines?.length ? stopLines : undefined;
+
+  switch (config.provider) {
+    case 'openai':
+    case 'llamacpp':
+      return new ChatOpenAI({
+        model: config.model,
+        temperature,
+        maxTokens,
+        topP,
+        stop,
+        // 本地服务不校验 Key，但 SDK 要求非空
+        apiKey: config.apiKey || 'no-key',
+        configuration: {
+          baseURL: trimBaseUrl(config.baseUrl),
+          dangerouslyAllowBrowser: true,
+        },
+        // seed 以及 llama.cpp 特有的 top_k / repeat_penalty 作为额外请求参数传入
+        modelKwargs: {
+          ...(seed !== undefined && { seed }),
+          ...(config.provider === 'llamacpp' && {
+            ...(topK !== undefined && { top_k: topK }),
+            ...(repeatPenalty !== undefined && { repeat_penalty: repeatPenalty }),
+          }),
+          ...(format && {
+            response_format: { type: 'json_schema', json_schema: { name: 'extraction', schema: format } },
+          }),
+        },
+        // 保留原始响应，用于读取 vLLM / llama.cpp 返回的 reasoning_content
+        __includeRawResponse: config.showThinking,
+      });
+    case 'anthropic':
+      return new ChatAnthropic({
+        model: config.model,
+        apiKey: config.apiKey,
+        anthropicApiUrl: trimBaseUrl(config.baseUrl),
+        clientOptions: { dangerouslyAllowBrowser: true },
+        stopSequences: stop,
+        // 开启扩展思考时不能设置温度和采样参数，且输出上限必须大于思考预算
+        ...(config.showThinking
+          ? {
+            thinking: { type: 'enabled', budget_tokens: ANTHROPIC_THINKING_BUDGET },
+            maxTokens: Math.max(maxTokens, ANTHROPIC_THINKING_BUDGET * 2),
+          }
+          : { temperature, maxTokens, topP, topK }),
+      });
+    case 'ollama':
+    default:
+      return new ChatOllama({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        temperature,
+        numPredict: maxTokens,
+        numCtx: config.numCtx,
+        topP,
+        topK,
+        repeatPenalty,
+        seed,
+        stop,
+        keepAlive: config.keepAlive,
+        think: config.showThinking,
+        format,
+      });
+  }
+};
+
+/**
+ * 请求 OpenAI / Anthropic 格式的模型列表接口
+ */
+const requestProviderModels = async (
+  config: Pick<OllamaConfig, 'provider' | 'baseUrl' | 'apiKey'>,
+  signal?: AbortSignal
+): Promise<OllamaModel[]> => {
+  const baseUrl = trimBaseUrl(config.baseUrl);
+  const isAnthropic = config.provider === 'anthropic';
+  const response = await fetch(isAnthropic ? `${baseUrl}/v1/models` : `${baseUrl}/models`, {
+    headers: isAnthropic
+      ? {
+        'x-api-key': config.apiKey ?? '',
+        'anthropic-version': '2023-06-01',
+        'anthropic-dangerous-direct-browser-access': 'true',
+      }
+      : config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {},
+    signal,
+  });
+  if (!response.ok) {
+    throw new HttpError(response.status, `获取模型列表失败: ${response.status}`);
+  }
+  const data = await response.json() as { data?: Array<{ id: string }> };
+  return (data.data ?? []).map(model => ({ name: model.id }));
+};
+
+/**
+ * 列出服务中可用的模型
+ * Ollama 使用 /api/tags，其余服务使用 OpenAI / Anthropic 格式的 models 接口
+ */
+export const listProviderModels = (
+  config: Pick<OllamaConfig, 'provider' | 'baseUrl' | 'apiKey'>,
+  signal?: AbortSignal
+): Promise<OllamaModel[]> =>
+  config.provider === 'ollama' ? listModels(config.baseUrl, signal) : requestProviderModels(config, signal);
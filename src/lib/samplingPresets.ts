@@ -0,0 +1,66 @@
+/**
+ * 生成参数预设
+ * 内置「精确」「创意」两种预设，用户保存的预设存放在 localStorage 中
+ */
+import type { SamplingOptions, SamplingPreset } from '../types';
+
+const PRESETS_KEY = 'samplingPresets';
+
+export const BUILTIN_PRESETS: SamplingPreset[] = [
+  {
+    id: 'precise',
+    name: '精确',
+    options: { temperature: 0.2, topP: 0.8, topK: 20, repeatPenalty: 1.1 },
+    builtin: true,
+  },
+  {
+    id: 'creative',
+    name: '创意',
+    options: { temperature: 1.0, topP: 0.95, topK: 80, repeatPenalty: 1.05 },
+    builtin: true,
+  },
+];
+
+/**
+ * 读取全部预设（内置预设在前）
+ */
+export const loadPresets = (): SamplingPreset[] => {
+  try {
+    const saved = localStorage.getItem(PRESETS_KEY);
+    return [...BUILTIN_PRESETS, ...(saved ? JSON.parse(saved) as SamplingPreset[] : [])];
+  } catch {
+    // 解析失败，只使用内置预设
+    return BUILTIN_PRESETS;
+  }
+};
+
+// 只持久化用户保存的预设
+const saveUserPresets = (presets: SamplingPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets.filter(preset => !preset.builtin)));
+};
+
+/**
+ * 保存新预设，返回更新后的预设列表
+ */
+export const addPreset = (presets: SamplingPreset[], name: string, options: Partial<SamplingOptions>) => {
+  const updated = [...presets, { id: crypto.randomUUID(), name, options: compactOptions(options) }];
+  saveUserPresets(updated);
+  return updated;
+};
+
+/**
+ * 删除预设（内置预设不可删除），返回更新后的预设列表
+ */
+export const removePreset = (presets: SamplingPreset[], id: string) => {
+  const updated = presets.filter(preset => preset.builtin || preset.id !== id);
+  saveUserPresets(updated);
+  return updated;
+};
+
+/**
+ * 去掉未设置的参数，只保留真正覆盖的值
+ */
+export const compactOptions = (options: Partial<SamplingOptions>): Partial<SamplingOptions> =>
+  Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined && !(Array.isArray(value) && value.length === 0))
+  ) as Partial<SamplingOptions>;
@@ -0,0 +1,48 @@
+import type { ChatSession } from '../types';
+import { idbDelete, idbGetAll, idbPut } from './db';
+import { normalizeSessionTree } from './messageTree';
+
+/**
+ * 会话持久化
+ * 每个会话（含完整消息列表）作为一条记录保存在 IndexedDB 的 sessions 仓库中
+ */
+
+export const DEFAULT_SESSION_TITLE = '新对话';
+
+/**
+ * 创建一个新的会话对象（不会自动保存）
+ */
+export const createSession = (partial: Partial<ChatSession> = {}): ChatSession => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    title: DEFAULT_SESSION_TITLE,
+    model: '',
+    systemPrompt: '',
+    messages: [],
+    currentLeafId: null,
+    createdAt: now,
+    updatedAt: now,
+    ...partial,
+  };
+};
+
+/**
+ * 读取全部会话，按最近更新时间倒序
+ */
+export const listSessions = async (): Promise<ChatSession[]> => {
+  const sessions = (await idbGetAll<ChatSession>('sessions')).map(normalizeSessionTree);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = (session: ChatSession): Promise<void> => idbPut('sessions', session);
+
+export const removeSession = (id: string): Promise<void> => idbDelete('sessions', id);
+
+/**
+ * 根据第一轮问答生成的兜底标题：截取用户首条消息
+ */
+export const fallbackTitle = (userMessage: string): string => {
+  const firstLine = userMessage.trim().split('\n')[0];
+  return firstLine.length > 20 ? `${firstLine.slice(0, 20)}…` : firstLine || DEFAULT_SESSION_TITLE;
+};
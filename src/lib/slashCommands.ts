@@ -0,0 +1,76 @@
+/**
+ * 斜杠命令
+ * 在输入框中输入 / 打开命令面板：运行内置命令，或从提示词库插入模板、设置系统提示词
+ */
+import type { PromptTemplate } from '../types';
+
+export type SlashCommandName = 'clear' | 'model' | 'weather' | 'extract';
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  argument?: string; // 参数说明，没有时命令不需要参数
+  description: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { name: 'clear', description: '清空当前会话的聊天记录' },
+  { name: 'model', argument: '模型', description: '切换当前会话使用的模型' },
+  { name: 'weather', argument: '城市', description: '查询城市的实时天气' },
+  { name: 'extract', argument: '文本', description: '按提取模板从文本中提取结构化信息' },
+];
+
+// 命令面板中的一项
+export type PaletteItem =
+  | { type: 'command'; key: string; label: string; description: string; command: SlashCommand; args?: string }
+  | { type: 'prompt'; key: string; label: string; description: string; prompt: PromptTemplate };
+
+/**
+ * 解析输入中的斜杠命令，不是内置命令时返回 null
+ */
+export const parseSlashCommand = (input: string): { command: SlashCommand; args: string } | null => {
+  const match = input.match(/^\/(\S+)(?:\s+([\s\S]*))?$/);
+  const command = match && SLASH_COMMANDS.find(item => item.name === match[1]);
+  return command ? { command, args: match[2]?.trim() ?? '' } : null;
+};
+
+const includes = (text: string, query: string) => text.toLowerCase().includes(query.toLowerCase());
+
+/**
+ * 根据输入内容生成命令面板的选项，不在输入命令时返回空列表
+ * - 输入命令名时：匹配的内置命令和提示词模板
+ * - 输入 /model 的参数时：匹配的已安装模型
+ */
+export const getPaletteItems = (input: string, prompts: PromptTemplate[], models: string[]): PaletteItem[] => {
+  if (!input.startsWith('/') || input.includes('\n')) return [];
+
+  const modelMatch = input.match(/^\/model\s+(\S*)$/);
+  if (modelMatch) {
+    const command = SLASH_COMMANDS.find(item => item.name === 'model')!;
+    return models
+      .filter(model => includes(model, modelMatch[1]))
+      .map(model => ({ type: 'command', key: `model:${model}`, label: model, description: '切换到该模型', command, args: model }));
+  }
+
+  const query = input.slice(1);
+  if (/\s/.test(query)) return [];
+
+  const commands = SLASH_COMMANDS
+    .filter(command => includes(command.name, query))
+    .map((command): PaletteItem => ({
+      type: 'command',
+      key: `command:${command.name}`,
+      label: `/${command.name}${command.argument ? ` <${command.argument}>` : ''}`,
+      description: command.description,
+      command,
+    }));
+  const templates = prompts
+    .filter(prompt => includes(prompt.name, query))
+    .map((prompt): PaletteItem => ({
+      type: 'prompt',
+      key: `prompt:${prompt.id}`,
+      label: `/${prompt.name}`,
+      description: prompt.kind === 'system' ? '设为系统提示词' : '插入消息模板',
+      prompt,
+    }));
+  return [...commands, ...templates];
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { createStreamParser, parseStream, type RawStreamChunk, type StreamChunk } from './streamParser';
+import { STREAM_FIXTURES } from './__fixtures__/streamChunks';
+
+const toAsyncIterable = async function* (chunks: RawStreamChunk[]) {
+  yield* chunks;
+};
+
+const collect = async (chunks: RawStreamChunk[]) => {
+  const results: StreamChunk[] = [];
+  for await (const chunk of parseStream(toAsyncIterable(chunks))) {
+    results.push(chunk);
+  }
+  return results;
+};
+
+// 合并同类文本，与拆块方式无关
+const joinText = (chunks: StreamChunk[]) => ({
+  thinking: chunks.filter(chunk => chunk.type === 'thinking').map(chunk => chunk.content).join(''),
+  content: chunks.filter(chunk => chunk.type === 'content').map(chunk => chunk.content).join(''),
+});
+
+describe('parseStream', () => {
+  it.each(STREAM_FIXTURES)('$name', async ({ chunks, expected }) => {
+    expect(await collect(chunks)).toEqual(expected);
+  });
+
+  it('按单个字符拆分时输出的思考和回答不变', async () => {
+    const text = '<think>\n先想一想 a<b 的情况\n</think>\n\n结论：a<b<c 成立';
+    const whole = joinText(await collect([{ content: text }]));
+    const split = joinText(await collect([...text].map(char => ({ content: char }))));
+
+    expect(whole).toEqual({ thinking: '先想一想 a<b 的情况\n', content: '结论：a<b<c 成立' });
+    expect(split).toEqual(whole);
+  });
+});
+
+describe('createStreamParser', () => {
+  it('没有用量时 flush 不输出 usage', () => {
+    const parser = createStreamParser();
+    expect(parser.push({ content: '你好' })).toEqual([{ type: 'content', content: '你好' }]);
+    expect(parser.flush()).toEqual([]);
+  });
+
+  it('未闭合的 <think> 中的内容在流结束前都算思考内容', () => {
+    const parser = createStreamParser();
+    expect(parser.push({ content: '<think>还没想完' })).toEqual([{ type: 'thinking', content: '还没想完' }]);
+    expect(parser.push({ content: '</thi' })).toEqual([]);
+    expect(parser.flush()).toEqual([{ type: 'thinking', content: '</thi' }]);
+  });
+});
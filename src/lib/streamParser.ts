@@ -0,0 +1,237 @@
+/**
+ * 流式响应解析
+ * 把各服务返回的消息块统一转换为 StreamChunk：思考内容、回答内容、工具调用参数增量和 token 用量。
+ * 解析器是有状态的：<think> 标签可能被拆到多个块中，工具调用参数按块拼接，用量在流结束时汇总输出
+ */
+import type { Citation, TokenUsage, ToolCallDraft, ToolCallResult } from '../types';
+
+// 流式响应块类型
+export interface StreamChunk {
+  type: 'thinking' | 'content' | 'tool_call' | 'tool_call_delta' | 'citations' | 'usage';
+  content: string;
+  toolCall?: ToolCallResult;
+  toolCallDraft?: ToolCallDraft; // 生成中的工具调用（content 为本块新增的参数片段）
+  citations?: Citation[]; // 检索到的知识库片段（在回答开始前输出）
+  usage?: TokenUsage; // 本次请求的 token 用量（在流结束时输出）
+  model?: string; // 服务返回的模型名称（与 usage 一起输出）
+}
+
+// 解析器接受的消息块，与 LangChain 的 AIMessageChunk 兼容
+export interface RawStreamChunk {
+  content: unknown;
+  additional_kwargs?: unknown;
+  response_metadata?: unknown;
+  usage_metadata?: { input_tokens?: number; output_tokens?: number };
+  tool_call_chunks?: Array<{ name?: string; args?: string; id?: string; index?: number }>;
+}
+
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+/**
+ * 将 chunk.content 转换为字符串
+ * LangChain 的 content 可能是 string 或数组
+ */
+export const getContentAsString = (content: unknown): string => {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map(item => {
+        if (typeof item === 'string') {
+          return item;
+        }
+        if (item && typeof item === 'object' && 'text' in item) {
+          return String((item as { text: string }).text);
+        }
+        return '';
+      })
+      .join('');
+  }
+  return String(content || '');
+};
+
+// 文本末尾可能是被拆开的标签（如 "<thi"），返回需要留到下一块再判断的长度
+const partialTagLength = (text: string, tag: string) => {
+  for (let length = Math.min(tag.length - 1, text.length); length > 0; length--) {
+    if (tag.startsWith(text.slice(-length))) return length;
+  }
+  return 0;
+};
+
+// 思考内容字段：Ollama 的 reasoning_content、vLLM / llama.cpp 原始响应中的 delta.reasoning_content
+const getReasoning = (additionalKwargs: unknown): string | undefined => {
+  if (!additionalKwargs || typeof additionalKwargs !== 'object') return undefined;
+  const kwargs = additionalKwargs as {
+    reasoning_content?: string;
+    __raw_response?: { choices?: Array<{ delta?: { reasoning_content?: string; reasoning?: string } }> };
+  };
+  const delta = kwargs.__raw_response?.choices?.[0]?.delta;
+  return kwargs.reasoning_content || delta?.reasoning_content || delta?.reasoning;
+};
+
+// content 整体是 Ollama 原生接口的响应行时，取出其中的消息（其余 JSON 视为模型输出的正文）
+const parseOllamaLine = (text: string) => {
+  if (!text.startsWith('{"model"')) return null;
+  try {
+    const parsed = JSON.parse(text) as {
+      message?: { content?: string; thinking?: string };
+      done?: boolean;
+      prompt_eval_count?: number;
+      eval_count?: number;
+      eval_duration?: number;
+    };
+    return parsed.message && typeof parsed.done === 'boolean' ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 创建流式响应解析器，每次请求使用一个新的解析器
+ * - push：解析一个消息块，返回可以立即输出的结果
+ * - flush：流结束时调用，输出留在缓冲区的文本和汇总的 token 用量
+ */
+export const createStreamParser = () => {
+  let inThink = false;
+  let pending = ''; // 尚未确定归属的文本（末尾可能是不完整的标签）
+  let trimStart = false; // 标签后紧跟的空白不输出
+  const drafts: ToolCallDraft[] = [];
+  let usage: TokenUsage | null = null;
+  let model: string | undefined;
+
+  const emitText = (text: string, results: StreamChunk[]) => {
+    const output = trimStart ? text.replace(/^\s+/, '') : text;
+    if (!output) return;
+    trimStart = false;
+    results.push({ type: inThink ? 'thinking' : 'content', content: output });
+  };
+
+  // 按 <think> 标签把正文拆分为思考内容和回答
+  const pushText = (text: string, results: StreamChunk[]) => {
+    pending += text;
+    for (;;) {
+      const tag = inThink ? THINK_CLOSE : THINK_OPEN;
+      const index = pending.indexOf(tag);
+      if (index < 0) break;
+      emitText(pending.slice(0, index), results);
+      pending = pending.slice(index + tag.length);
+      inThink = !inThink;
+      trimStart = true;
+    }
+    const keep = partialTagLength(pending, inThink ? THINK_CLOSE : THINK_OPEN);
+    emitText(pending.slice(0, pending.length - keep), results);
+    pending = pending.slice(pending.length - keep);
+  };
+
+  // 找到增量所属的工具调用：优先按 ID，其次按序号（后续增量通常只带序号）
+  const findDraft = (delta: NonNullable<RawStreamChunk['tool_call_chunks']>[number]) => {
+    for (let i = drafts.length - 1; i >= 0; i--) {
+      const draft = drafts[i];
+      if (delta.id ? draft.id === delta.id : delta.index === undefined || draft.index === delta.index) {
+        return draft;
+      }
+    }
+    return undefined;
+  };
+
+  const pushToolCallChunks = (chunks: NonNullable<RawStreamChunk['tool_call_chunks']>, results: StreamChunk[]) => {
+    for (const delta of chunks) {
+      let draft = findDraft(delta);
+      if (!draft) {
+        draft = { index: delta.index ?? drafts.length, id: delta.id, name: '', args: '' };
+        drafts.push(draft);
+      }
+      draft.name ||= delta.name ?? '';
+      draft.args += delta.args ?? '';
+      results.push({ type: 'tool_call_delta', content: delta.args ?? '', toolCallDraft: { ...draft } });
+    }
+  };
+
+  // 用量可能分多块返回（如 Anthropic 的输入和输出分开统计），逐块累加
+  const addUsage = (inputTokens?: number, outputTokens?: number, outputDurationNs?: number) => {
+    if (inputTokens === undefined && outputTokens === undefined) return;
+    const outputDurationMs = (usage?.outputDurationMs ?? 0) + (outputDurationNs ?? 0) / 1e6;
+    usage = {
+      inputTokens: (usage?.inputTokens ?? 0) + (inputTokens ?? 0),
+      outputTokens: (usage?.outputTokens ?? 0) + (outputTokens ?? 0),
+      ...(outputDurationMs > 0 && { outputDurationMs }),
+    };
+  };
+
+  const push = (chunk: RawStreamChunk): StreamChunk[] => {
+    const results: StreamChunk[] = [];
+
+    const reasoning = getReasoning(chunk.additional_kwargs);
+    if (reasoning) {
+      results.push({ type: 'thinking', content: reasoning });
+    }
+
+    // Anthropic 的思考内容以 thinking 类型的内容块返回
+    if (Array.isArray(chunk.content)) {
+      for (const block of chunk.content as Array<{ type?: string; thinking?: string }>) {
+        if (block?.type === 'thinking' && block.thinking) {
+          results.push({ type: 'thinking', content: block.thinking });
+        }
+      }
+    }
+
+    const text = getContentAsString(chunk.content);
+    const ollamaLine = text ? parseOllamaLine(text) : null;
+    if (ollamaLine) {
+      if (ollamaLine.message?.thinking) {
+        results.push({ type: 'thinking', content: ollamaLine.message.thinking });
+      }
+      pushText(ollamaLine.message?.content ?? '', results);
+      addUsage(ollamaLine.prompt_eval_count, ollamaLine.eval_count, ollamaLine.eval_duration);
+    } else if (text) {
+      pushText(text, results);
+    }
+
+    if (chunk.tool_call_chunks?.length) {
+      pushToolCallChunks(chunk.tool_call_chunks, results);
+    }
+
+    // LangChain 统一的 usage_metadata，缺少时读取 Ollama 的 eval 计数；eval_duration 用于计算输出速度
+    const metadata = chunk.response_metadata as {
+      model?: string;
+      model_name?: string;
+      prompt_eval_count?: number;
+      eval_count?: number;
+      eval_duration?: number;
+    } | undefined;
+    addUsage(
+      chunk.usage_metadata?.input_tokens ?? metadata?.prompt_eval_count,
+      chunk.usage_metadata?.output_tokens ?? metadata?.eval_count,
+      metadata?.eval_duration
+    );
+    model = metadata?.model || metadata?.model_name || model;
+
+    return results;
+  };
+
+  const flush = (): StreamChunk[] => {
+    const results: StreamChunk[] = [];
+    // 缓冲区中的 "<thi" 等最终没有组成标签，按原样输出
+    emitText(pending, results);
+    pending = '';
+    if (usage) {
+      results.push({ type: 'usage', content: '', usage, model });
+    }
+    return results;
+  };
+
+  return { push, flush };
+};
+
+/**
+ * 解析整个流，流结束后输出缓冲内容和 token 用量
+ */
+export async function* parseStream(stream: AsyncIterable<RawStreamChunk>): AsyncGenerator<StreamChunk> {
+  const parser = createStreamParser();
+  for await (const chunk of stream) {
+    yield* parser.push(chunk);
+  }
+  yield* parser.flush();
+}
@@ -0,0 +1,61 @@
+/**
+ * 工具凭据管理
+ * 凭据保存在服务端（开发服务器或独立服务）的密钥文件中，前端只能读取配置状态（密钥为掩码）和提交修改
+ */
+import { TOOL_SERVER_URL } from '../types';
+
+const SECRETS_API = `${TOOL_SERVER_URL}/__tool-secrets`;
+
+// 凭据字段状态，与服务端 server/secrets.ts 中的 SecretFieldStatus 对应
+export interface SecretFieldStatus {
+  key: string;
+  label: string;
+  env: string; // 对应的环境变量
+  secret: boolean;
+  placeholder?: string;
+  source: 'file' | 'env' | 'default' | null; // 未配置时为 null
+  value?: string; // 非敏感字段的当前值
+  preview?: string; // 敏感字段的掩码
+}
+
+export interface ToolSecretStatus {
+  id: string;
+  title: string;
+  fields: SecretFieldStatus[];
+}
+
+// 工具 ID → 字段 → 新值，空字符串表示清除
+export type ToolSecretsPatch = Record<string, Record<string, string>>;
+
+const request = async (init?: RequestInit): Promise<ToolSecretStatus[]> => {
+  const response = await fetch(SECRETS_API, init);
+  const contentType = response.headers.get('Content-Type') ?? '';
+  // 静态部署时该路径会返回 index.html
+  if (!contentType.includes('application/json')) {
+    throw new Error('当前服务不支持管理工具凭据，请使用 pnpm dev 或独立服务启动');
+  }
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? `请求失败: ${response.status}`);
+  }
+  return data as ToolSecretStatus[];
+};
+
+/**
+ * 获取工具凭据的配置状态
+ */
+export const fetchToolSecrets = (signal?: AbortSignal) => request({ signal });
+
+/**
+ * 保存工具凭据，返回更新后的配置状态
+ * @param adminToken 服务端设置了 TOOL_SECRETS_TOKEN 时需要的管理令牌
+ */
+export const saveToolSecrets = (patch: ToolSecretsPatch, adminToken?: string) =>
+  request({
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(adminToken && { Authorization: `Bearer ${adminToken}` }),
+    },
+    body: JSON.stringify(patch),
+  });
@@ -17,3 +17,53 @@ export const UserSchema = z.object({
 
 export type User = z.infer<typeof UserSchema>;
 
+
+// 发票 Schema（结构化提取内置模板）
+export const InvoiceSchema = z.object({
+  invoiceNumber: z.string().min(1).describe('发票号码'),
+  issueDate: z.string().describe('开票日期，格式 YYYY-MM-DD'),
+  seller: z.string().min(1).describe('销售方名称'),
+  buyer: z.string().min(1).describe('购买方名称'),
+  items: z.array(z.object({
+    name: z.string().min(1).describe('货物或服务名称'),
+    quantity: z.number().positive().describe('数量'),
+    unitPrice: z.number().nonnegative().describe('单价'),
+    amount: z.number().nonnegative().describe('金额'),
+  })).describe('明细'),
+  taxAmount: z.number().nonnegative().optional().describe('税额'),
+  totalAmount: z.number().nonnegative().describe('价税合计'),
+}).describe('发票信息');
+
+// 简历 Schema（结构化提取内置模板）
+export const ResumeSchema = z.object({
+  name: z.string().min(1).describe('姓名'),
+  email: z.string().email('邮箱格式不正确').optional().describe('邮箱'),
+  phone: z.string().optional().describe('联系电话'),
+  summary: z.string().optional().describe('个人简介'),
+  skills: z.array(z.string()).describe('技能'),
+  experience: z.array(z.object({
+    company: z.string().min(1).describe('公司'),
+    title: z.string().describe('职位'),
+    period: z.string().describe('起止时间'),
+  })).describe('工作经历'),
+  education: z.array(z.object({
+    school: z.string().min(1).describe('学校'),
+    degree: z.string().describe('学历'),
+    major: z.string().optional().describe('专业'),
+  })).describe('教育经历'),
+}).describe('简历');
+
+// 订单 Schema（结构化提取内置模板）
+export const OrderSchema = z.object({
+  orderId: z.string().min(1).describe('订单号'),
+  customer: z.string().min(1).describe('客户姓名'),
+  phone: z.string().optional().describe('联系电话'),
+  address: z.string().describe('收货地址'),
+  items: z.array(z.object({
+    product: z.string().min(1).describe('商品'),
+    quantity: z.number().int().positive().describe('数量'),
+    price: z.number().nonnegative().describe('单价'),
+  })).min(1).describe('商品列表'),
+  status: z.enum(['待付款', '待发货', '已发货', '已完成', '已取消']).optional().describe('订单状态'),
+  total: z.number().nonnegative().describe('订单总额'),
+}).describe('订单信息');
@@ -0,0 +1,169 @@
+/**
+ * 内置工具定义
+ * 导入本模块即完成注册
+ */
+import { createElement } from 'react';
+import { z } from 'zod';
+import { StructuredDataCard } from '../components/StructuredDataCard';
+import {
+  AirQualityCard,
+  CurrentWeatherCard,
+  ForecastCard,
+  HourlyForecastCard,
+  WeatherWarningCard,
+} from '../components/WeatherCard';
+import { findSchema, loadSchemas } from '../lib/extractionSchemas';
+import { formatIssues } from '../lib/extraction';
+import { extractStructured } from './extractStructured';
+import {
+  getAirQuality,
+  getHourlyForecast,
+  getWeatherByCity,
+  getWeatherForecast,
+  getWeatherWarnings,
+} from './getWeather';
+import { CURRENT_LOCATION } from './qweather';
+import { defineTool, registerTool } from './registry';
+import {
+  AirQualityDataSchema,
+  ExtractionResultSchema,
+  HourlyForecastDataSchema,
+  WeatherDataSchema,
+  WeatherForecastDataSchema,
+  WeatherWarningsDataSchema,
+} from './resultSchemas';
+
+const locationSchema = z.string().describe(
+  `城市名称（如 北京、上海）、城市ID（如 101010100）或"经度,纬度"坐标（如 116.41,39.92）；用户问"我这里"等当前位置的天气时传 ${CURRENT_LOCATION}。` +
+  '同名地点有多个时工具会返回候选列表，请让用户选择后用城市ID重新查询'
+);
+
+// 天气查询工具
+export const weatherTool = defineTool({
+  name: 'getWeather',
+  title: '天气查询',
+  description: '查询指定城市的实时天气信息，包括温度、湿度、风向等',
+  schema: z.object({
+    location: locationSchema,
+  }),
+  execute: async ({ location }, { signal, stats }) => {
+    const weatherData = await getWeatherByCity({ location, signal, stats });
+    if (!weatherData) {
+      throw new Error('查询天气失败，请检查城市名称是否正确');
+    }
+    return weatherData;
+  },
+  renderResult: (data) => createElement(CurrentWeatherCard, { data }),
+  resultSchema: WeatherDataSchema,
+});
+
+// 每日天气预报工具
+export const forecastTool = defineTool({
+  name: 'getWeatherForecast',
+  title: '天气预报',
+  description: '查询指定城市未来 3 天或 7 天的每日天气预报，包括白天/夜间天气、最高/最低气温、降水量等，第一天为今天。用于回答明天、后天、周末等日期的天气问题',
+  schema: z.object({
+    location: locationSchema,
+    days: z.coerce.number().int().min(1).max(7).optional().describe('预报天数，3 或 7，默认 3；询问 3 天以后的日期时使用 7'),
+  }),
+  execute: async ({ location, days }, { signal, stats }) => {
+    const forecast = await getWeatherForecast({ location, days: days && days > 3 ? 7 : 3, signal, stats });
+    if (!forecast) {
+      throw new Error('查询天气预报失败，请检查城市名称是否正确');
+    }
+    return forecast;
+  },
+  renderResult: (data) => createElement(ForecastCard, { data }),
+  resultSchema: WeatherForecastDataSchema,
+});
+
+// 逐小时天气预报工具
+export const hourlyForecastTool = defineTool({
+  name: 'getHourlyForecast',
+  title: '逐小时预报',
+  description: '查询指定城市未来 24 小时的逐小时天气预报，包括气温、天气现象和降水概率。用于回答今天晚些时候、几点会不会下雨等问题',
+  schema: z.object({
+    location: locationSchema,
+  }),
+  execute: async ({ location }, { signal, stats }) => {
+    const forecast = await getHourlyForecast({ location, signal, stats });
+    if (!forecast) {
+      throw new Error('查询逐小时预报失败，请检查城市名称是否正确');
+    }
+    return forecast;
+  },
+  renderResult: (data) => createElement(HourlyForecastCard, { data }),
+  resultSchema: HourlyForecastDataSchema,
+});
+
+// 空气质量工具
+export const airQualityTool = defineTool({
+  name: 'getAirQuality',
+  title: '空气质量',
+  description: '查询指定城市的实时空气质量，包括 AQI、空气质量类别、首要污染物、各污染物浓度和健康建议',
+  schema: z.object({
+    location: locationSchema,
+  }),
+  execute: async ({ location }, { signal, stats }) => {
+    const airQuality = await getAirQuality({ location, signal, stats });
+    if (!airQuality) {
+      throw new Error('查询空气质量失败，请检查城市名称是否正确');
+    }
+    return airQuality;
+  },
+  renderResult: (data) => createElement(AirQualityCard, { data }),
+  resultSchema: AirQualityDataSchema,
+});
+
+// 天气预警工具
+export const weatherWarningTool = defineTool({
+  name: 'getWeatherWarnings',
+  title: '天气预警',
+  description: '查询指定城市当前生效的气象灾害预警，如暴雨、高温、大风、寒潮等',
+  schema: z.object({
+    location: locationSchema,
+  }),
+  execute: async ({ location }, { signal, stats }) => {
+    const warnings = await getWeatherWarnings({ location, signal, stats });
+    if (!warnings) {
+      throw new Error('查询天气预警失败，请检查城市名称是否正确');
+    }
+    return warnings;
+  },
+  // 没有预警时明确告诉模型，避免模型自行猜测
+  formatResult: (data) => data.warnings.length > 0 ? JSON.stringify(data) : `${data.location.name}当前没有生效的天气预警`,
+  renderResult: (data) => createElement(WeatherWarningCard, { data }),
+  resultSchema: WeatherWarningsDataSchema,
+});
+
+// 结构化信息提取工具（按提取模板的 JSON Schema 提取）
+export const extractStructuredTool = defineTool({
+  name: 'extractStructuredData',
+  title: '结构化信息提取',
+  description: '按提取模板从自然语言中提取结构化数据，内置用户信息、发票、简历、订单模板，也支持用户自定义的模板',
+  schema: z.object({
+    content: z.string().describe('需要提取信息的原文'),
+    template: z.string().optional().describe('提取模板名称，例如：用户信息、发票、简历、订单，默认为用户信息'),
+  }),
+  execute: async ({ content, template }, { signal, config }) => {
+    const schema = findSchema(loadSchemas(), template);
+    const result = await extractStructured({ content, schema, signal, config });
+    if (!result) {
+      throw new Error(`提取${schema.name}失败，请提供更详细的信息`);
+    }
+    return result;
+  },
+  // 只把提取到的数据和未通过校验的字段回传给模型
+  formatResult: (result) => result.issues?.length
+    ? `${JSON.stringify(result.data)}\n以下字段未通过校验，请提醒用户补充或确认：\n${formatIssues(result.issues)}`
+    : JSON.stringify(result.data),
+  renderResult: (result) => createElement(StructuredDataCard, { result }),
+  resultSchema: ExtractionResultSchema,
+});
+
+registerTool(weatherTool);
+registerTool(forecastTool);
+registerTool(hourlyForecastTool);
+registerTool(airQualityTool);
+registerTool(weatherWarningTool);
+registerTool(extractStructuredTool);
@@ -0,0 +1,67 @@
+/**
+ * 结构化提取工具
+ * 按提取模板的 JSON Schema 约束模型输出，从自然语言中提取结构化数据；
+ * 校验未通过时把问题反馈给模型修正，最终返回问题最少的结果
+ */
+import { AIMessage, HumanMessage, SystemMessage, type BaseMessage } from '@langchain/core/messages';
+import { OLLAMA_CONFIG, type ExtractionResult, type ExtractionSchema, type OllamaConfig } from '../types';
+import { createChatModel } from '../lib/providers';
+import {
+  MAX_REPAIR_ATTEMPTS,
+  buildExtractionPrompt,
+  buildRepairPrompt,
+  needsRepair,
+  parseExtraction,
+  pickBetterResult,
+} from '../lib/extraction';
+
+/**
+ * 结构化提取配置
+ */
+export interface ExtractStructuredOptions {
+  content: string; // 需要提取的自然语言文本
+  schema: ExtractionSchema; // 提取模板
+  signal?: AbortSignal; // 用于取消请求
+  config?: OllamaConfig; // 模型服务配置，默认使用环境变量中的配置
+}
+
+/**
+ * 提取结构化数据
+ * @param options 提取选项
+ * @returns 提取结果（可能是带有字段问题的部分结果），模型请求失败时返回 null
+ */
+export async function extractStructured(options: ExtractStructuredOptions): Promise<ExtractionResult | null> {
+  const { content, schema, signal, config = OLLAMA_CONFIG } = options;
+
+  try {
+    // 提取只需要 JSON 结果，不开启思考
+    const chatModel = createChatModel({ ...config, showThinking: false }, schema.jsonSchema);
+
+    const messages: BaseMessage[] = [
+      new SystemMessage(buildExtractionPrompt(schema)),
+      new HumanMessage(content),
+    ];
+
+    let best: ExtractionResult | null = null;
+    let previous: ExtractionResult | null = null;
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS + 1; attempt++) {
+      const response = await chatModel.invoke(messages, { signal });
+      console.log(`📄 [Extract Structured] 第 ${attempt} 次输出:`, response.text);
+
+      const result = parseExtraction(response.text, schema, attempt);
+      best = pickBetterResult(best, result);
+      if (attempt > MAX_REPAIR_ATTEMPTS || !needsRepair(result, previous)) break;
+
+      console.warn('🔁 [Extract Structured] 校验未通过，请求模型修正:', result.issues);
+      messages.push(new AIMessage(response.text), new HumanMessage(buildRepairPrompt(result.issues ?? [])));
+      previous = result;
+    }
+
+    console.log('✅ [Extract Structured] Result:', best);
+    return best;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('❌ [Extract Structured] Error:', error);
+    return null;
+  }
+}
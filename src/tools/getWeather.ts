@@ -1,25 +1,22 @@
 /**
  * 天气查询工具
- * 调用和风天气 API 查询指定城市的实时天气
+ * 调用和风天气 API 查询指定城市的实时天气、每日预报、逐小时预报、空气质量和天气预警
+ * 同名地点有多个或无法定位时抛出 LocationError，凭据缺失或无效时抛出 HttpError，其他查询失败返回 null
  */
+import { QWEATHER_TTL, qweatherGet, queryByCity, type QWeatherRequestOptions, type WeatherLocation } from './qweather';
+
+export { CURRENT_LOCATION, LocationError, type WeatherLocation } from './qweather';
 
 /**
  * 天气数据结构
  */
 export interface WeatherData {
-  location: {
-    name: string; // 城市名称
-    id: string; // 城市ID
-    lat: number; // 纬度
-    lon: number; // 经度
-    adm1: string; // 一级行政区域
-    adm2: string; // 二级行政区域
-    country: string; // 国家
-  };
+  location: WeatherLocation;
   now: {
     temp: number; // 实时气温（摄氏度）
     feelsLike: number; // 体感温度（摄氏度）
     text: string; // 天气现象文字
+    icon: string; // 天气图标代码
     windDir: string; // 风向
     windScale: string; // 风力等级
     windSpeed: number; // 风速（公里/小时）
@@ -32,11 +29,113 @@ export interface WeatherData {
   };
 }
 
+/**
+ * 每日天气预报
+ */
+export interface DailyForecast {
+  date: string; // 预报日期，如 2024-05-01
+  textDay: string; // 白天天气现象文字
+  textNight: string; // 夜间天气现象文字
+  iconDay: string; // 白天天气图标代码
+  tempMax: number; // 最高气温（摄氏度）
+  tempMin: number; // 最低气温（摄氏度）
+  windDirDay: string; // 白天风向
+  windScaleDay: string; // 白天风力等级
+  humidity: number; // 相对湿度（%）
+  precip: number; // 当天总降水量（毫米）
+  uvIndex: number; // 紫外线强度指数
+  sunrise: string; // 日出时间
+  sunset: string; // 日落时间
+}
+
+/**
+ * 每日天气预报数据结构
+ */
+export interface WeatherForecastData {
+  location: WeatherLocation;
+  updateTime: string; // 数据更新时间
+  fxLink: string; // 天气预报网页链接
+  daily: DailyForecast[]; // 第一项为今天
+}
+
+/**
+ * 逐小时天气预报
+ */
+export interface HourlyForecast {
+  time: string; // 预报时间，如 2024-05-01T13:00+08:00
+  temp: number; // 气温（摄氏度）
+  text: string; // 天气现象文字
+  icon: string; // 天气图标代码
+  windDir: string; // 风向
+  windScale: string; // 风力等级
+  humidity: number; // 相对湿度（%）
+  pop?: number; // 降水概率（%），部分地区没有
+  precip: number; // 降水量（毫米）
+}
+
+/**
+ * 逐小时天气预报数据结构
+ */
+export interface HourlyForecastData {
+  location: WeatherLocation;
+  updateTime: string; // 数据更新时间
+  fxLink: string; // 天气预报网页链接
+  hourly: HourlyForecast[];
+}
+
+/**
+ * 空气质量数据结构
+ */
+export interface AirQualityData {
+  location: WeatherLocation;
+  aqi: number; // 空气质量指数
+  category: string; // 空气质量类别，如 良
+  level: string; // 空气质量等级
+  color: string; // 等级对应的颜色
+  primaryPollutant?: string; // 首要污染物
+  pollutants: Array<{
+    code: string; // 污染物代码，如 pm2p5
+    name: string; // 污染物名称，如 PM 2.5
+    value: number; // 浓度
+    unit: string; // 浓度单位
+  }>;
+  health?: {
+    effect: string; // 对健康的影响
+    advice: string; // 一般人群建议
+    sensitiveAdvice: string; // 敏感人群建议
+  };
+}
+
+/**
+ * 天气预警
+ */
+export interface WeatherWarning {
+  id: string;
+  title: string; // 预警标题
+  typeName: string; // 预警类型名称，如 暴雨
+  severity: string; // 严重等级
+  severityColor: string; // 预警颜色，如 Blue、Yellow、Orange、Red
+  sender: string; // 发布单位
+  pubTime: string; // 发布时间
+  startTime: string; // 开始时间
+  endTime: string; // 结束时间
+  text: string; // 预警详情
+}
+
+/**
+ * 天气预警数据结构
+ */
+export interface WeatherWarningsData {
+  location: WeatherLocation;
+  updateTime: string; // 数据更新时间
+  warnings: WeatherWarning[]; // 当前生效的预警，没有时为空数组
+}
+
 /**
  * 天气查询工具配置
  */
-export interface GetWeatherOptions {
-  location: string; // 城市名称或城市ID，如：北京 或 101010100
+export interface GetWeatherOptions extends QWeatherRequestOptions {
+  location: string; // 城市名称、城市ID、"经度,纬度" 坐标或 current（当前位置），如：北京、101010100、116.41,39.92
 }
 
 /**
@@ -70,92 +169,94 @@ interface QWeatherResponse {
 }
 
 /**
- * 和风天气 Geo v2 地理位置查询响应结构
- * 参考: https://dev.qweather.com/docs/api/geo/city-lookup/
+ * 和风天气每日预报响应结构
+ * 参考: https://dev.qweather.com/docs/api/weather/weather-daily-forecast/
  */
-interface QWeatherGeoV2Response {
-  code: string; // 状态码，200 表示成功
-  refer: {
-    sources: string[];
-    license: string[];
-  };
-  location: Array<{
-    name: string; // 地区/城市名称
-    id: string; // 地区/城市ID
-    lat: string; // 地区/城市纬度
-    lon: string; // 地区/城市经度
-    adm2: string; // 地区/城市的上级行政区划名称
-    adm1: string; // 地区/城市所属一级行政区域
-    country: string; // 地区/城市所属国家名称
-    tz: string; // 地区/城市所在时区
-    utcOffset: string; // 地区/城市目前与UTC时间偏移的小时数
-    isDst: string; // 地区/城市是否当前处于夏令时。1 表示当前处于夏令时，0 表示当前不是夏令时
-    type: string; // 地区/城市的属性
-    rank: string; // 地区评分
-    fxLink: string; // 该地区的天气预报网页链接
+interface QWeatherDailyResponse {
+  code: string;
+  updateTime: string;
+  fxLink: string;
+  daily: Array<{
+    fxDate: string;
+    sunrise: string;
+    sunset: string;
+    tempMax: string;
+    tempMin: string;
+    iconDay: string;
+    textDay: string;
+    textNight: string;
+    windDirDay: string;
+    windScaleDay: string;
+    humidity: string;
+    precip: string;
+    uvIndex: string;
   }>;
 }
 
 /**
- * 和风天气配置
- * 使用 Vite 代理解决 CORS 问题
+ * 和风天气逐小时预报响应结构
+ * 参考: https://dev.qweather.com/docs/api/weather/weather-hourly-forecast/
  */
-const QWEATHER_CONFIG = {
-  apiHost: '/qweather', // 使用 Vite 代理路径
-};
+interface QWeatherHourlyResponse {
+  code: string;
+  updateTime: string;
+  fxLink: string;
+  hourly: Array<{
+    fxTime: string;
+    temp: string;
+    icon: string;
+    text: string;
+    windDir: string;
+    windScale: string;
+    humidity: string;
+    pop?: string;
+    precip: string;
+  }>;
+}
 
 /**
- * 根据城市名称获取城市信息
- * 使用和风天气 Geo v2 API
- * @param cityName 城市名称
- * @returns 城市信息，如果未找到返回 null
+ * 和风天气实时空气质量响应结构
+ * 参考: https://dev.qweather.com/docs/api/air-quality/air-current/
  */
-async function getCityInfo(cityName: string): Promise<{
-  name: string;
-  id: string;
-  lat: number;
-  lon: number;
-  adm1: string;
-  adm2: string;
-  country: string;
-} | null> {
-  try {
-    // 使用 Geo v2 API: /geo/v2/city/lookup
-    const url = `${QWEATHER_CONFIG.apiHost}/geo/v2/city/lookup?location=${encodeURIComponent(cityName)}`;
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`获取城市信息失败: ${response.status}`);
-    }
-
-    const data: QWeatherGeoV2Response = await response.json();
-
-    // 检查响应状态码
-    if (data.code === '200' && data.location && data.location.length > 0) {
-      const location = data.location[0];
-      console.log(`📍 [Get City Info] 找到城市: ${cityName} -> ${location.id} (${location.name})`);
-      return {
-        name: location.name,
-        id: location.id,
-        lat: parseFloat(location.lat),
-        lon: parseFloat(location.lon),
-        adm1: location.adm1,
-        adm2: location.adm2,
-        country: location.country,
-      };
-    }
+interface QWeatherAirResponse {
+  indexes: Array<{
+    code: string; // 空气质量指数代码，如 cn-mee（中国生态环境部标准）
+    aqi: number;
+    level: string;
+    category: string;
+    color: { red: number; green: number; blue: number; alpha: number };
+    primaryPollutant?: { code: string; name: string } | null;
+    health?: {
+      effect: string;
+      advice: { generalPopulation: string; sensitivePopulation: string };
+    };
+  }>;
+  pollutants: Array<{
+    code: string;
+    name: string;
+    concentration: { value: number; unit: string };
+  }>;
+}
 
-    console.warn(`⚠️ [Get City Info] 未找到城市: ${cityName} (code: ${data.code})`);
-    return null;
-  } catch (error) {
-    console.error('❌ [Get City Info] Error:', error);
-    return null;
-  }
+/**
+ * 和风天气预警响应结构
+ * 参考: https://dev.qweather.com/docs/api/warning/weather-warning/
+ */
+interface QWeatherWarningResponse {
+  code: string;
+  updateTime: string;
+  warning: Array<{
+    id: string;
+    sender: string;
+    pubTime: string;
+    title: string;
+    startTime: string;
+    endTime: string;
+    severity: string;
+    severityColor: string;
+    typeName: string;
+    text: string;
+  }>;
 }
 
 /**
@@ -165,54 +266,17 @@ async function getCityInfo(cityName: string): Promise<{
  */
 export async function getWeatherByCity(options: GetWeatherOptions): Promise<WeatherData | null> {
   const { location } = options;
-
-  try {
-    console.log(`🌤️ [Get Weather] 开始查询天气: ${location}`);
-
-    // 判断 location 是否为纯数字（城市ID）
-    let cityInfo: Awaited<ReturnType<typeof getCityInfo>> | null = null;
-
-    if (/^\d+$/.test(location)) {
-      // 如果是城市ID，需要根据ID查询城市信息
-      // 由于Geo v2 API不支持用ID直接查询，我们暂时不支持直接使用ID
-      console.warn(`⚠️ [Get Weather] 当前版本暂不支持直接使用城市ID查询，请使用城市名称`);
-      return null;
-    } else {
-      // 根据城市名称获取城市信息
-      cityInfo = await getCityInfo(location);
-    }
-
-    if (!cityInfo) {
-      console.error(`❌ [Get Weather] 未找到城市: ${location}`);
-      return null;
-    }
-
-    // 查询实时天气
-    const weatherUrl = `${QWEATHER_CONFIG.apiHost}/v7/weather/now?location=${cityInfo.id}`;
-    const response = await fetch(weatherUrl, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(`查询天气失败: ${response.status}`);
-    }
-
-    const data: QWeatherResponse = await response.json();
-
-    if (data.code !== '200') {
-      throw new Error(`天气API返回错误: ${data.code}`);
-    }
+  return queryByCity('Get Weather', location, options, async (cityInfo) => {
+    const data = await qweatherGet<QWeatherResponse>('/v7/weather/now', { location: cityInfo.id }, QWEATHER_TTL.now, options);
 
     // 转换为统一格式
-    const weatherData: WeatherData = {
+    return {
       location: cityInfo,
       now: {
         temp: parseFloat(data.now.temp),
         feelsLike: parseFloat(data.now.feelsLike),
         text: data.now.text,
+        icon: data.now.icon,
         windDir: data.now.windDir,
         windScale: data.now.windScale,
         windSpeed: parseFloat(data.now.windSpeed),
@@ -224,11 +288,135 @@ export async function getWeatherByCity(options: GetWeatherOptions): Promise<Weat
         fxLink: data.fxLink,
       },
     };
+  });
+}
 
-    console.log('✅ [Get Weather] 查询成功:', weatherData);
-    return weatherData;
-  } catch (error) {
-    console.error('❌ [Get Weather] Error:', error);
-    return null;
-  }
+/**
+ * 查询指定城市未来 3 天或 7 天的每日天气预报
+ * @returns 预报数据，如果查询失败返回 null
+ */
+export async function getWeatherForecast(
+  options: GetWeatherOptions & { days?: 3 | 7 }
+): Promise<WeatherForecastData | null> {
+  const { location, days = 3 } = options;
+  return queryByCity('Get Forecast', location, options, async (cityInfo) => {
+    const data = await qweatherGet<QWeatherDailyResponse>(`/v7/weather/${days}d`, { location: cityInfo.id }, QWEATHER_TTL.daily, options);
+    return {
+      location: cityInfo,
+      updateTime: data.updateTime,
+      fxLink: data.fxLink,
+      daily: data.daily.map(day => ({
+        date: day.fxDate,
+        textDay: day.textDay,
+        textNight: day.textNight,
+        iconDay: day.iconDay,
+        tempMax: parseFloat(day.tempMax),
+        tempMin: parseFloat(day.tempMin),
+        windDirDay: day.windDirDay,
+        windScaleDay: day.windScaleDay,
+        humidity: parseFloat(day.humidity),
+        precip: parseFloat(day.precip),
+        uvIndex: parseFloat(day.uvIndex),
+        sunrise: day.sunrise,
+        sunset: day.sunset,
+      })),
+    };
+  });
+}
+
+/**
+ * 查询指定城市未来 24 小时的逐小时天气预报
+ * @returns 预报数据，如果查询失败返回 null
+ */
+export async function getHourlyForecast(options: GetWeatherOptions): Promise<HourlyForecastData | null> {
+  const { location } = options;
+  return queryByCity('Get Hourly', location, options, async (cityInfo) => {
+    const data = await qweatherGet<QWeatherHourlyResponse>('/v7/weather/24h', { location: cityInfo.id }, QWEATHER_TTL.hourly, options);
+    return {
+      location: cityInfo,
+      updateTime: data.updateTime,
+      fxLink: data.fxLink,
+      hourly: data.hourly.map(hour => ({
+        time: hour.fxTime,
+        temp: parseFloat(hour.temp),
+        text: hour.text,
+        icon: hour.icon,
+        windDir: hour.windDir,
+        windScale: hour.windScale,
+        humidity: parseFloat(hour.humidity),
+        pop: hour.pop ? parseFloat(hour.pop) : undefined,
+        precip: parseFloat(hour.precip),
+      })),
+    };
+  });
+}
+
+/**
+ * 查询指定城市的实时空气质量
+ * 优先使用中国标准（cn-mee）的空气质量指数，没有时使用接口返回的第一个指数
+ * @returns 空气质量数据，如果查询失败返回 null
+ */
+export async function getAirQuality(options: GetWeatherOptions): Promise<AirQualityData | null> {
+  const { location } = options;
+  return queryByCity('Get Air Quality', location, options, async (cityInfo) => {
+    // 空气质量接口按经纬度查询，最多保留两位小数
+    const data = await qweatherGet<QWeatherAirResponse>(
+      `/airquality/v1/current/${cityInfo.lat.toFixed(2)}/${cityInfo.lon.toFixed(2)}`,
+      {},
+      QWEATHER_TTL.air,
+      options
+    );
+    const index = data.indexes.find(item => item.code === 'cn-mee') ?? data.indexes[0];
+    if (!index) {
+      throw new Error('该地区暂无空气质量数据');
+    }
+
+    const { red, green, blue } = index.color;
+    return {
+      location: cityInfo,
+      aqi: index.aqi,
+      category: index.category,
+      level: index.level,
+      color: `rgb(${red}, ${green}, ${blue})`,
+      primaryPollutant: index.primaryPollutant?.name,
+      pollutants: data.pollutants.map(pollutant => ({
+        code: pollutant.code,
+        name: pollutant.name,
+        value: pollutant.concentration.value,
+        unit: pollutant.concentration.unit,
+      })),
+      health: index.health && {
+        effect: index.health.effect,
+        advice: index.health.advice.generalPopulation,
+        sensitiveAdvice: index.health.advice.sensitivePopulation,
+      },
+    };
+  });
+}
+
+/**
+ * 查询指定城市当前生效的天气预警
+ * @returns 预警数据（没有预警时 warnings 为空数组），如果查询失败返回 null
+ */
+export async function getWeatherWarnings(options: GetWeatherOptions): Promise<WeatherWarningsData | null> {
+  const { location } = options;
+  return queryByCity('Get Warnings', location, options, async (cityInfo) => {
+    const data = await qweatherGet<QWeatherWarningResponse>('/v7/warning/now', { location: cityInfo.id }, QWEATHER_TTL.warning, options);
+    return {
+      location: cityInfo,
+      updateTime: data.updateTime,
+      warnings: (data.warning ?? []).map(warning => ({
+        id: warning.id,
+        title: warning.title,
+        typeName: warning.typeName,
+        severity: warning.severity,
+        severityColor: warning.severityColor,
+        sender: warning.sender,
+        pubTime: warning.pubTime,
+        startTime: warning.startTime,
+        endTime: warning.endTime,
+        text: warning.text,
+      })),
+    };
+  });
 }
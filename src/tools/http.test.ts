@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cachedFetchJson } from './http';
+
+vi.mock('../lib/db', () => ({
+  idbDelete: vi.fn(async () => {}),
+  idbDeleteByIndex: vi.fn(async () => {}),
+  idbGet: vi.fn(async () => undefined),
+  idbPut: vi.fn(async () => {}),
+}));
+
+// 每个用例使用不同的域名，避免同一域名的请求间隔
+let host = 0;
+const nextUrl = () => `https://api${++host}.example.com/data`;
+
+// 请求在调用 respond 之前一直进行中，中断时按 fetch 的行为拒绝
+const mockFetch = () => {
+  const requests: Array<{ init: RequestInit; respond: (body: unknown) => void }> = [];
+  vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise<Response>((resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    requests.push({ init, respond: body => resolve(new Response(JSON.stringify(body))) });
+  })));
+  return requests;
+};
+
+describe('cachedFetchJson', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { href: 'http://localhost/' } });
+    vi.stubGlobal('IDBKeyRange', { upperBound: () => null });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('请求头不同的相同 URL 不复用进行中的请求', async () => {
+    const requests = mockFetch();
+    const url = nextUrl();
+    const first = cachedFetchJson(url, { headers: { Authorization: 'Bearer a' } });
+    const second = cachedFetchJson(url, { headers: { Authorization: 'Bearer b' } });
+    const third = cachedFetchJson(url, { headers: { authorization: 'Bearer a' } });
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+
+    requests[0].respond('a');
+    requests[1].respond('b');
+    expect(await Promise.all([first, second, third])).toEqual(['a', 'b', 'a']);
+  });
+
+  it('没有 signal 的调用方仍在等待时，其他调用方中断不取消请求', async () => {
+    const requests = mockFetch();
+    const url = nextUrl();
+    const controller = new AbortController();
+    const first = cachedFetchJson(url);
+    const second = cachedFetchJson(url, { signal: controller.signal });
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+    const { signal } = requests[0].init;
+
+    controller.abort();
+    await expect(second).rejects.toBeDefined();
+    expect(signal?.aborted).toBe(false);
+    requests[0].respond('ok');
+    expect(await first).toBe('ok');
+  });
+
+  it('所有带 signal 的调用方都中断后取消请求', async () => {
+    const requests = mockFetch();
+    const url = nextUrl();
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = cachedFetchJson(url, { signal: a.signal });
+    const second = cachedFetchJson(url, { signal: b.signal });
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+
+    a.abort();
+    expect(requests[0].init.signal?.aborted).toBe(false);
+    b.abort();
+    expect(requests[0].init.signal?.aborted).toBe(true);
+    await expect(Promise.allSettled([first, second])).resolves.toHaveLength(2);
+
+    // 已取消的请求不再被复用
+    const third = cachedFetchJson(url);
+    await vi.waitFor(() => expect(requests).toHaveLength(2));
+    requests[1].respond('new');
+    expect(await third).toBe('new');
+  });
+});
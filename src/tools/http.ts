@@ -0,0 +1,252 @@
+/**
+ * 工具共用的 HTTP 请求层
+ * GET 请求的 JSON 响应按 TTL 缓存到内存和 IndexedDB；URL 和请求头都相同的请求进行中时复用同一个 Promise；
+ * 按域名限制请求频率，遇到 429 / 5xx 或网络错误时退避重试
+ */
+import { idbDelete, idbDeleteByIndex, idbGet, idbPut } from '../lib/db';
+import { HttpError } from '../lib/errors';
+import type { FetchStats } from '../types';
+
+/**
+ * 请求选项
+ */
+export interface CachedFetchOptions<T = unknown> {
+  ttl?: number; // 缓存有效期（毫秒），不传或为 0 时不缓存
+  signal?: AbortSignal; // 用于取消请求
+  headers?: Record<string, string>;
+  stats?: FetchStats; // 传入时累计请求数和缓存命中数
+  validate?: (data: T) => void; // 校验响应内容，抛出错误时不缓存
+}
+
+// 缓存记录
+interface CacheEntry {
+  id: string; // 请求 URL 与请求头，见 requestKey
+  data: unknown;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+// 同一域名两次请求之间的最小间隔
+const MIN_REQUEST_INTERVAL = 200;
+
+// 失败后的最大重试次数与首次重试的等待时间（之后每次翻倍）
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY = 500;
+
+// 进行中的请求，所有调用方都结束等待（中断或拿到结果）后才可以取消
+interface InflightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number; // 仍在等待的调用方数量
+}
+
+const memoryCache = new Map<string, CacheEntry>();
+const inflight = new Map<string, InflightRequest>();
+const nextRequestAt = new Map<string, number>();
+let pruned = false;
+
+/**
+ * 可重试的 HTTP 错误
+ */
+class RetryableError extends Error {
+  retryAfter?: number; // 服务端要求的等待时间（毫秒）
+
+  constructor(message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'RetryableError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// 等待指定时间，中断时立即结束
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * 等待同一域名的请求间隔，超出频率的请求依次排队
+ */
+const waitForSlot = async (url: string, signal?: AbortSignal) => {
+  const host = new URL(url, window.location.href).host;
+  const now = Date.now();
+  const startAt = Math.max(now, nextRequestAt.get(host) ?? 0);
+  nextRequestAt.set(host, startAt + MIN_REQUEST_INTERVAL);
+  if (startAt > now) {
+    await sleep(startAt - now, signal);
+  }
+};
+
+// Retry-After 可以是秒数或 HTTP 日期
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * 发起请求，429 / 5xx 和网络错误按指数退避重试
+ */
+const fetchWithRetry = async <T>(url: string, options: CachedFetchOptions<T>): Promise<T> => {
+  const { signal, headers } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await waitForSlot(url, signal);
+      const response = await fetch(url, {
+        method: 'GET',
+        headers: { 'Accept': 'application/json', ...headers },
+        signal,
+      });
+      if (response.status === 429 || response.status >= 500) {
+        throw new RetryableError(`请求失败: ${response.status}`, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+      if (!response.ok) {
+        // 代理返回的错误说明（如缺少凭据）
+        const body = await response.json().catch(() => null);
+        throw new HttpError(response.status, typeof body?.error === 'string' ? body.error : `请求失败: ${response.status}`);
+      }
+      return await response.json() as T;
+    } catch (error) {
+      // fetch 的网络错误为 TypeError
+      const retryable = error instanceof RetryableError || error instanceof TypeError;
+      if (signal?.aborted || !retryable || attempt >= MAX_RETRIES) throw error;
+
+      const delay = (error instanceof RetryableError && error.retryAfter) || RETRY_BASE_DELAY * 2 ** attempt;
+      console.warn(`🔁 [HTTP] ${url} 请求失败，${delay}ms 后重试（第 ${attempt + 1} 次）:`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/**
+ * 缓存和复用请求时使用的键：请求头（如鉴权信息）不同的请求结果可能不同，不能共用
+ */
+const requestKey = (url: string, headers: Record<string, string> = {}) => {
+  const entries = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? `${url} ${JSON.stringify(entries)}` : url;
+};
+
+/**
+ * 读取未过期的缓存，内存中没有时从 IndexedDB 读取
+ */
+const readCache = async (key: string): Promise<CacheEntry | undefined> => {
+  const entry = memoryCache.get(key) ?? await idbGet<CacheEntry>('httpCache', key).catch(() => undefined);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    memoryCache.delete(key);
+    idbDelete('httpCache', key).catch(() => {});
+    return undefined;
+  }
+  memoryCache.set(key, entry);
+  return entry;
+};
+
+const writeCache = (key: string, data: unknown, ttl: number) => {
+  const now = Date.now();
+  const entry: CacheEntry = { id: key, data, cachedAt: now, expiresAt: now + ttl };
+  memoryCache.set(key, entry);
+  idbPut('httpCache', entry).catch(error => console.warn('⚠️ [HTTP] 写入缓存失败:', error));
+};
+
+/**
+ * 清理 IndexedDB 中已过期的缓存（每次打开页面执行一次）
+ */
+const pruneCache = () => {
+  if (pruned) return;
+  pruned = true;
+  idbDeleteByIndex('httpCache', 'expiresAt', IDBKeyRange.upperBound(Date.now()))
+    .catch(error => console.warn('⚠️ [HTTP] 清理过期缓存失败:', error));
+};
+
+/**
+ * 等待进行中的请求：每个调用方在中断或拿到结果时结束等待（只计一次），
+ * 当前调用方中断时只结束自己的等待，没有调用方在等待时才取消请求
+ */
+const join = <T>(request: InflightRequest, signal?: AbortSignal): Promise<T> => {
+  request.waiters++;
+  let waiting = true;
+  const leave = () => {
+    if (!waiting) return;
+    waiting = false;
+    request.waiters--;
+  };
+  if (!signal) return (request.promise as Promise<T>).finally(leave);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      leave();
+      if (request.waiters === 0) request.controller.abort(signal.reason);
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    (request.promise as Promise<T>)
+      .then(resolve, reject)
+      .finally(() => {
+        leave();
+        signal.removeEventListener('abort', onAbort);
+      });
+  });
+};
+
+/**
+ * 发起带缓存的 GET 请求并解析 JSON
+ * @param url 请求地址
+ * @param options 请求选项
+ */
+export async function cachedFetchJson<T>(url: string, options: CachedFetchOptions<T> = {}): Promise<T> {
+  const { ttl = 0, signal, headers, stats, validate } = options;
+  const key = requestKey(url, headers);
+  pruneCache();
+  if (stats) stats.requests++;
+
+  if (ttl > 0) {
+    const cached = await readCache(key);
+    if (cached) {
+      console.log(`⚡ [HTTP] 命中缓存: ${url}`);
+      if (stats) stats.cacheHits++;
+      return cached.data as T;
+    }
+  }
+
+  // 相同的请求正在进行时直接复用（已取消的请求除外）
+  const pending = inflight.get(key);
+  if (pending && !pending.controller.signal.aborted) {
+    console.log(`⚡ [HTTP] 复用进行中的请求: ${url}`);
+    if (stats) stats.cacheHits++;
+    return join<T>(pending, signal);
+  }
+
+  const controller = new AbortController();
+  const promise = fetchWithRetry<T>(url, { ...options, signal: controller.signal })
+    .then(data => {
+      validate?.(data);
+      if (ttl > 0) writeCache(key, data, ttl);
+      return data;
+    })
+    .finally(() => {
+      if (inflight.get(key) === request) inflight.delete(key);
+    });
+  const request: InflightRequest = { promise, controller, waiters: 0 };
+  inflight.set(key, request);
+  return join<T>(request, signal);
+}
@@ -1,6 +1,40 @@
 /**
  * 工具集合导出
  */
-export { extractUserInfo } from './extractUserInfo';
-export { getWeatherByCity } from './getWeather';
-export type { WeatherData } from './getWeather';
+import './builtin';
+
+export { extractStructured } from './extractStructured';
+export { cachedFetchJson, type CachedFetchOptions } from './http';
+export {
+  getWeatherByCity,
+  getWeatherForecast,
+  getHourlyForecast,
+  getAirQuality,
+  getWeatherWarnings,
+  LocationError,
+  CURRENT_LOCATION,
+} from './getWeather';
+export type {
+  WeatherData,
+  WeatherLocation,
+  WeatherForecastData,
+  DailyForecast,
+  HourlyForecastData,
+  HourlyForecast,
+  AirQualityData,
+  WeatherWarningsData,
+  WeatherWarning,
+} from './getWeather';
+export {
+  defineTool,
+  registerTool,
+  getTool,
+  listTools,
+  runTool,
+  formatToolResult,
+  isValidToolResult,
+  toLangChainTool,
+  describeTools,
+  type ToolDefinition,
+  type ToolContext,
+} from './registry';
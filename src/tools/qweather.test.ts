@@ -0,0 +1,39 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { cachedFetchJson } from './http';
+import { LocationError, resolveLocation } from './qweather';
+
+vi.mock('./http', () => ({ cachedFetchJson: vi.fn() }));
+
+const city = (name: string, id: string, adm2 = name) => ({
+  name, id, lat: '39.90', lon: '116.40', adm2, adm1: adm2, country: '中国',
+});
+
+// Geo v2 按相关度返回的候选
+const mockLookup = (...location: ReturnType<typeof city>[]) => {
+  vi.mocked(cachedFetchJson).mockResolvedValue({ code: '200', location });
+};
+
+describe('resolveLocation', () => {
+  beforeEach(() => {
+    vi.mocked(cachedFetchJson).mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('名称与本地化名称不同时使用排名第一的结果', async () => {
+    mockLookup(city('北京', '101010100'), city('北辰', '101030400', '天津'));
+    expect((await resolveLocation('Beijing')).id).toBe('101010100');
+  });
+
+  it('名称唯一匹配时不受排序影响', async () => {
+    mockLookup(city('长沙县', '101250106', '长沙'), city('长沙', '101250101'));
+    expect((await resolveLocation('长沙')).id).toBe('101250101');
+  });
+
+  it('多个地点同名时要求用户选择', async () => {
+    mockLookup(city('朝阳', '101010300', '北京'), city('朝阳', '101071201', '朝阳'), city('朝阳区', '101060110', '长春'));
+    const error = await resolveLocation('朝阳').catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(LocationError);
+    expect((error as LocationError).candidates.map(item => item.id)).toEqual(['101010300', '101071201']);
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * 和风天气 API 客户端
+ * 天气类工具共用的请求方法与城市查询，请求经由工具代理添加 API Key；
+ * 响应按接口类型设置不同的缓存时间，减少重复请求消耗的 API 额度
+ */
+import { HttpError } from '../lib/errors';
+import { TOOL_SERVER_URL, type FetchStats } from '../types';
+import { cachedFetchJson } from './http';
+
+/**
+ * 城市信息
+ */
+export interface WeatherLocation {
+  name: string; // 城市名称
+  id: string; // 城市ID
+  lat: number; // 纬度
+  lon: number; // 经度
+  adm1: string; // 一级行政区域
+  adm2: string; // 二级行政区域
+  country: string; // 国家
+}
+
+/**
+ * 和风天气 Geo v2 地理位置查询响应结构
+ * 参考: https://dev.qweather.com/docs/api/geo/city-lookup/
+ */
+interface QWeatherGeoV2Response {
+  code: string; // 状态码，200 表示成功
+  refer: {
+    sources: string[];
+    license: string[];
+  };
+  location: Array<{
+    name: string; // 地区/城市名称
+    id: string; // 地区/城市ID
+    lat: string; // 地区/城市纬度
+    lon: string; // 地区/城市经度
+    adm2: string; // 地区/城市的上级行政区划名称
+    adm1: string; // 地区/城市所属一级行政区域
+    country: string; // 地区/城市所属国家名称
+    tz: string; // 地区/城市所在时区
+    utcOffset: string; // 地区/城市目前与UTC时间偏移的小时数
+    isDst: string; // 地区/城市是否当前处于夏令时。1 表示当前处于夏令时，0 表示当前不是夏令时
+    type: string; // 地区/城市的属性
+    rank: string; // 地区评分
+    fxLink: string; // 该地区的天气预报网页链接
+  }>;
+}
+
+/**
+ * 和风天气配置
+ * 请求发往工具代理（vite dev / preview 插件或独立服务），解决 CORS 问题
+ */
+const QWEATHER_CONFIG = {
+  apiHost: `${TOOL_SERVER_URL}/qweather`, // 工具代理路径
+  lang: 'zh',
+};
+
+const MINUTE = 60 * 1000;
+
+// 各类接口的缓存时间：城市信息基本不变，实时数据只短暂缓存
+export const QWEATHER_TTL = {
+  geo: 7 * 24 * 60 * MINUTE,
+  now: 10 * MINUTE,
+  hourly: 30 * MINUTE,
+  daily: 60 * MINUTE,
+  air: 30 * MINUTE,
+  warning: 10 * MINUTE,
+};
+
+/**
+ * 和风天气请求选项
+ */
+export interface QWeatherRequestOptions {
+  signal?: AbortSignal; // 用于取消请求
+  stats?: FetchStats; // 累计请求数和缓存命中数
+}
+
+/**
+ * 发起和风天气 API 请求
+ * v7 接口在响应体中返回 code，200 以外都视为失败（不缓存）；v1 接口只通过 HTTP 状态码表示失败
+ * @param path 接口路径，如 /v7/weather/now
+ * @param params 查询参数
+ * @param ttl 缓存时间（毫秒）
+ * @param options 请求选项
+ */
+export async function qweatherGet<T>(
+  path: string,
+  params: Record<string, string>,
+  ttl: number,
+  options: QWeatherRequestOptions = {}
+): Promise<T> {
+  const query = new URLSearchParams({ lang: QWEATHER_CONFIG.lang, ...params });
+  return cachedFetchJson<T>(`${QWEATHER_CONFIG.apiHost}${path}?${query}`, {
+    ...options,
+    ttl,
+    validate: (data) => {
+      const code = (data as { code?: unknown }).code;
+      if (typeof code === 'string' && code !== '200') {
+        throw new Error(`天气API返回错误: ${code}`);
+      }
+    },
+  });
+}
+
+/**
+ * 地点解析失败：未找到地点、无法定位，或同名地点有多个需要用户选择
+ */
+export class LocationError extends Error {
+  candidates: WeatherLocation[]; // 同名地点的候选列表，按相关度排序
+
+  constructor(message: string, candidates: WeatherLocation[] = []) {
+    super(message);
+    this.name = 'LocationError';
+    this.candidates = candidates;
+  }
+}
+
+// 表示用户当前位置的 location 取值
+export const CURRENT_LOCATION = 'current';
+const CURRENT_LOCATION_ALIASES = [CURRENT_LOCATION, '当前位置', '我这里', '这里'];
+
+// 浏览器定位的超时时间
+const GEOLOCATION_TIMEOUT = 10000;
+
+// 和风天气坐标格式："经度,纬度"
+const COORDINATES_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*[,，]\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+// 比较地名时忽略行政区划后缀，“朝阳区”与“朝阳”视为同名
+const normalizeName = (name: string) => name.trim().replace(/(省|市|区|县)$/, '');
+
+const formatCoordinates = (lon: number, lat: number) => `${lon.toFixed(2)},${lat.toFixed(2)}`;
+
+/**
+ * 通过浏览器定位获取当前位置坐标
+ * @returns "经度,纬度" 格式的坐标
+ */
+function getCurrentCoordinates(signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new LocationError('当前浏览器不支持定位，请告诉我所在城市'));
+      return;
+    }
+    const onAbort = () => reject(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        signal?.removeEventListener('abort', onAbort);
+        console.log('📍 [Geolocation] 获取当前位置成功:', position.coords);
+        resolve(formatCoordinates(position.coords.longitude, position.coords.latitude));
+      },
+      (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        console.warn('⚠️ [Geolocation] 获取当前位置失败:', error);
+        reject(new LocationError(
+          error.code === error.PERMISSION_DENIED
+            ? '用户拒绝了定位授权，请告诉我所在城市'
+            : '获取当前位置失败，请告诉我所在城市'
+        ));
+      },
+      { timeout: GEOLOCATION_TIMEOUT, maximumAge: 10 * 60 * 1000 }
+    );
+  });
+}
+
+/**
+ * 使用和风天气 Geo v2 API 查询地点，返回按相关度排序的全部候选
+ * @param location 城市名称、城市ID 或 "经度,纬度" 坐标
+ * @param options 请求选项
+ */
+async function lookupCities(location: string, options: QWeatherRequestOptions): Promise<WeatherLocation[]> {
+  // 使用 Geo v2 API: /geo/v2/city/lookup
+  const data = await qweatherGet<QWeatherGeoV2Response>('/geo/v2/city/lookup', { location }, QWEATHER_TTL.geo, options);
+  return (data.location ?? []).map(item => ({
+    name: item.name,
+    id: item.id,
+    lat: parseFloat(item.lat),
+    lon: parseFloat(item.lon),
+    adm1: item.adm1,
+    adm2: item.adm2,
+    country: item.country,
+  }));
+}
+
+// 候选地点的描述，包含上级行政区与城市ID
+const describeCandidate = (city: WeatherLocation) => {
+  const region = Array.from(new Set([city.adm2, city.adm1, city.country])).filter(item => item && item !== city.name);
+  return `- ${city.name}（${region.join('，')}）城市ID: ${city.id}`;
+};
+
+/**
+ * 将用户给出的地点解析为城市信息
+ * 支持城市名称、城市ID（如 101010100）、"经度,纬度" 坐标以及 current（浏览器定位）；
+ * 名称匹配到多个同名地点时不做猜测，抛出带候选列表的 LocationError
+ * @param location 地点
+ * @param options 请求选项
+ */
+export async function resolveLocation(location: string, options: QWeatherRequestOptions = {}): Promise<WeatherLocation> {
+  const query = location.trim();
+  const current = CURRENT_LOCATION_ALIASES.includes(query.toLowerCase());
+  const coordinates = query.match(COORDINATES_PATTERN);
+
+  let lookup = query;
+  if (current) {
+    lookup = await getCurrentCoordinates(options.signal);
+  } else if (coordinates) {
+    const [lon, lat] = [parseFloat(coordinates[1]), parseFloat(coordinates[2])];
+    if (Math.abs(lon) > 180 || Math.abs(lat) > 90) {
+      throw new LocationError(`坐标「${query}」无效，请使用“经度,纬度”格式，如 116.41,39.92`);
+    }
+    lookup = formatCoordinates(lon, lat);
+  }
+
+  const candidates = await lookupCities(lookup, options);
+  if (candidates.length === 0) {
+    throw new LocationError(`未找到地点「${query}」，请检查名称是否正确`);
+  }
+
+  // 城市ID 和坐标只对应一个地点
+  if (current || coordinates || /^\d+$/.test(query)) {
+    console.log(`📍 [Resolve Location] ${query} -> ${candidates[0].id} (${candidates[0].name})`);
+    return candidates[0];
+  }
+
+  // 依次按名称完全相同、忽略行政区划后缀相同筛选，只有多个地点同名时才需要用户选择
+  // （“长沙”只匹配长沙市而不是长沙县，“朝阳区”可以匹配到名称为“朝阳”的地点）；
+  // 没有同名地点时（如用拼音或英文查询中文名称）使用排名第一的结果，GeoAPI 已按相关度排序
+  const exact = candidates.filter(city => city.name === query);
+  const similar = candidates.filter(city => normalizeName(city.name) === normalizeName(query));
+  const matches = exact.length > 0 ? exact : similar;
+  if (matches.length < 2) {
+    const city = matches[0] ?? candidates[0];
+    console.log(`📍 [Resolve Location] ${query} -> ${city.id} (${city.name})`);
+    return city;
+  }
+
+  console.warn(`⚠️ [Resolve Location] 「${query}」匹配到 ${matches.length} 个地点，需要用户选择`);
+  throw new LocationError(
+    `「${query}」对应多个地点，请把以下候选列给用户选择，再用对应的城市ID重新查询：\n${matches.map(describeCandidate).join('\n')}`,
+    matches
+  );
+}
+
+/**
+ * 解析地点后执行天气请求
+ * 地点无法确定时抛出 LocationError，由调用方提示用户；缺少或无效的凭据（401 / 403）抛出 HttpError；
+ * 其他查询失败返回 null
+ * @param label 日志标签
+ * @param location 城市名称、城市ID、"经度,纬度" 坐标或 current
+ * @param options 请求选项
+ * @param request 根据城市信息发起的天气请求
+ */
+export async function queryByCity<T>(
+  label: string,
+  location: string,
+  options: QWeatherRequestOptions,
+  request: (city: WeatherLocation) => Promise<T>
+): Promise<T | null> {
+  try {
+    console.log(`🌤️ [${label}] 开始查询: ${location}`);
+    const cityInfo = await resolveLocation(location, options);
+    const result = await request(cityInfo);
+    console.log(`✅ [${label}] 查询成功:`, result);
+    return result;
+  } catch (error) {
+    const unauthorized = error instanceof HttpError && (error.status === 401 || error.status === 403);
+    if (options.signal?.aborted || error instanceof LocationError || unauthorized) throw error;
+    console.error(`❌ [${label}] Error:`, error);
+    return null;
+  }
+}
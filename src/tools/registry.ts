@@ -0,0 +1,142 @@
+/**
+ * 工具注册表
+ * 每个工具声明名称、参数 Schema、执行函数以及可选的结果格式化/渲染方式，
+ * smartChatStream、系统提示词和 UI 都从这里发现可用工具
+ */
+import type { ReactNode } from 'react';
+import { DynamicStructuredTool } from '@langchain/core/tools';
+import type { z } from 'zod';
+import type { FetchStats, OllamaConfig, ToolCallResult } from '../types';
+
+/**
+ * 工具执行上下文
+ */
+export interface ToolContext {
+  signal?: AbortSignal; // 中断生成时取消进行中的工具调用
+  config?: OllamaConfig; // 当前会话使用的模型服务配置，需要调用模型的工具使用它
+  stats?: FetchStats; // 由 runTool 创建，发起 HTTP 请求的工具传给请求层以统计缓存命中
+}
+
+/**
+ * 工具定义
+ */
+export interface ToolDefinition<TSchema extends z.AnyZodObject = z.AnyZodObject, TResult = unknown> {
+  name: string; // 工具名称（模型调用时使用）
+  title: string; // 展示名称
+  description: string; // 提供给模型的工具描述
+  schema: TSchema; // 参数 Schema
+  // 执行工具，失败时抛出错误
+  execute(args: z.infer<TSchema>, context: ToolContext): Promise<TResult>;
+  // 将结果格式化为回传给模型的文本，默认 JSON 序列化
+  formatResult?(result: TResult): string;
+  // 在聊天界面中渲染工具结果，默认展示 JSON
+  renderResult?(result: TResult): ReactNode;
+  // 结果的结构，声明了 renderResult 的工具需要提供，用于校验导入会话中的工具结果
+  resultSchema?: z.ZodType<TResult>;
+}
+
+const registry = new Map<string, ToolDefinition>();
+
+/**
+ * 定义工具（保留参数与结果的类型推断）
+ */
+export const defineTool = <TSchema extends z.AnyZodObject, TResult>(
+  definition: ToolDefinition<TSchema, TResult>
+): ToolDefinition<TSchema, TResult> => definition;
+
+/**
+ * 注册工具，同名工具会被覆盖
+ */
+export const registerTool = <TSchema extends z.AnyZodObject, TResult>(definition: ToolDefinition<TSchema, TResult>) => {
+  registry.set(definition.name, definition as unknown as ToolDefinition);
+};
+
+export const getTool = (name: string): ToolDefinition | undefined => registry.get(name);
+
+/**
+ * 列出已注册的工具，传入 enabled 时仅返回其中启用的工具
+ */
+export const listTools = (enabled?: string[]): ToolDefinition[] => {
+  const tools = Array.from(registry.values());
+  return enabled ? tools.filter(tool => enabled.includes(tool.name)) : tools;
+};
+
+/**
+ * 将工具结果格式化为回传给模型的文本
+ */
+export const formatToolResult = (call: ToolCallResult): string => {
+  if (!call.success) {
+    return call.error || '工具调用失败';
+  }
+  const tool = getTool(call.toolName);
+  return tool?.formatResult ? tool.formatResult(call.result) : JSON.stringify(call.result);
+};
+
+/**
+ * 工具结果是否符合工具声明的结构，未知工具或没有声明结构的工具只展示 JSON，视为有效
+ */
+export const isValidToolResult = (call: ToolCallResult): boolean => {
+  const schema = getTool(call.toolName)?.resultSchema;
+  return !call.success || !schema || schema.safeParse(call.result).success;
+};
+
+/**
+ * 执行工具调用，参数校验失败或执行出错时返回失败结果而不是抛出
+ */
+export const runTool = async (
+  name: string,
+  args: Record<string, unknown>,
+  options: Omit<ToolContext, 'stats'> & { id?: string } = {}
+): Promise<ToolCallResult> => {
+  const { id, signal, config } = options;
+  const base = { id, toolName: name, args };
+  const tool = getTool(name);
+  if (!tool) {
+    return { ...base, success: false, error: `未知工具: ${name}` };
+  }
+
+  const parsed = tool.schema.safeParse(args);
+  if (!parsed.success) {
+    return { ...base, success: false, error: `参数错误: ${parsed.error.issues.map(issue => issue.message).join('; ')}` };
+  }
+
+  const stats: FetchStats = { requests: 0, cacheHits: 0 };
+  try {
+    console.log(`🔧 [Tool Call] 调用工具 ${name}:`, parsed.data);
+    const result = await tool.execute(parsed.data, { signal, config, stats });
+    return { ...base, success: true, result, ...(stats.requests > 0 && { fetchStats: stats }) };
+  } catch (error) {
+    // 中断生成时向上抛出，由调用方统一处理
+    if (signal?.aborted) throw error;
+    console.error(`❌ [Tool Call] 工具 ${name} 执行失败:`, error);
+    return {
+      ...base,
+      success: false,
+      error: error instanceof Error ? error.message : '工具调用失败',
+      ...(stats.requests > 0 && { fetchStats: stats }),
+    };
+  }
+};
+
+/**
+ * 转换为 LangChain 工具，供 bindTools 使用
+ */
+export const toLangChainTool = (tool: ToolDefinition) =>
+  new DynamicStructuredTool({
+    name: tool.name,
+    description: tool.description,
+    schema: tool.schema,
+    func: async (args: Record<string, unknown>) => {
+      const call = await runTool(tool.name, args);
+      if (!call.success) {
+        throw new Error(call.error);
+      }
+      return formatToolResult(call);
+    },
+  });
+
+/**
+ * 根据已启用的工具生成系统提示词中的工具说明
+ */
+export const describeTools = (tools: ToolDefinition[]): string =>
+  tools.map((tool, index) => `${index + 1}. ${tool.name}: ${tool.description}`).join('\n');
@@ -0,0 +1,131 @@
+/**
+ * 工具结果的 Schema
+ * 导入的会话文件不可信，其中的工具结果要先按这里的结构校验再交给 renderResult 渲染
+ */
+import { z } from 'zod';
+import type { ExtractionResult } from '../types';
+import type {
+  AirQualityData,
+  HourlyForecastData,
+  WeatherData,
+  WeatherForecastData,
+  WeatherLocation,
+  WeatherWarningsData,
+} from './getWeather';
+
+const WeatherLocationSchema: z.ZodType<WeatherLocation> = z.object({
+  name: z.string(),
+  id: z.string(),
+  lat: z.number(),
+  lon: z.number(),
+  adm1: z.string(),
+  adm2: z.string(),
+  country: z.string(),
+});
+
+export const WeatherDataSchema: z.ZodType<WeatherData> = z.object({
+  location: WeatherLocationSchema,
+  now: z.object({
+    temp: z.number(),
+    feelsLike: z.number(),
+    text: z.string(),
+    icon: z.string(),
+    windDir: z.string(),
+    windScale: z.string(),
+    windSpeed: z.number(),
+    humidity: z.number(),
+    precip: z.number(),
+    pressure: z.number(),
+    vis: z.number(),
+    obsTime: z.string(),
+    fxLink: z.string(),
+  }),
+});
+
+export const WeatherForecastDataSchema: z.ZodType<WeatherForecastData> = z.object({
+  location: WeatherLocationSchema,
+  updateTime: z.string(),
+  fxLink: z.string(),
+  daily: z.array(z.object({
+    date: z.string(),
+    textDay: z.string(),
+    textNight: z.string(),
+    iconDay: z.string(),
+    tempMax: z.number(),
+    tempMin: z.number(),
+    windDirDay: z.string(),
+    windScaleDay: z.string(),
+    humidity: z.number(),
+    precip: z.number(),
+    uvIndex: z.number(),
+    sunrise: z.string(),
+    sunset: z.string(),
+  })),
+});
+
+export const HourlyForecastDataSchema: z.ZodType<HourlyForecastData> = z.object({
+  location: WeatherLocationSchema,
+  updateTime: z.string(),
+  fxLink: z.string(),
+  hourly: z.array(z.object({
+    time: z.string(),
+    temp: z.number(),
+    text: z.string(),
+    icon: z.string(),
+    windDir: z.string(),
+    windScale: z.string(),
+    humidity: z.number(),
+    pop: z.number().optional(),
+    precip: z.number(),
+  })),
+});
+
+export const AirQualityDataSchema: z.ZodType<AirQualityData> = z.object({
+  location: WeatherLocationSchema,
+  aqi: z.number(),
+  category: z.string(),
+  level: z.string(),
+  color: z.string(),
+  primaryPollutant: z.string().optional(),
+  pollutants: z.array(z.object({
+    code: z.string(),
+    name: z.string(),
+    value: z.number(),
+    unit: z.string(),
+  })),
+  health: z.object({
+    effect: z.string(),
+    advice: z.string(),
+    sensitiveAdvice: z.string(),
+  }).optional(),
+});
+
+export const WeatherWarningsDataSchema: z.ZodType<WeatherWarningsData> = z.object({
+  location: WeatherLocationSchema,
+  updateTime: z.string(),
+  warnings: z.array(z.object({
+    id: z.string(),
+    title: z.string(),
+    typeName: z.string(),
+    severity: z.string(),
+    severityColor: z.string(),
+    sender: z.string(),
+    pubTime: z.string(),
+    startTime: z.string(),
+    endTime: z.string(),
+    text: z.string(),
+  })),
+});
+
+export const ExtractionResultSchema: z.ZodType<ExtractionResult> = z.object({
+  schemaId: z.string(),
+  schemaName: z.string(),
+  jsonSchema: z.record(z.unknown()),
+  data: z.record(z.unknown()),
+  issues: z.array(z.object({
+    path: z.array(z.union([z.string(), z.number()])),
+    kind: z.enum(['missing', 'invalid']),
+    message: z.string(),
+  })).optional(),
+  attempts: z.number().optional(),
+});
@@ -1,38 +1,233 @@
-// Ollama 配置类型
+// 模型服务类型：Ollama、OpenAI 兼容接口（OpenAI / vLLM 等）、Anthropic 格式接口、llama.cpp server
+export type ProviderType = 'ollama' | 'openai' | 'anthropic' | 'llamacpp';
+
+// 模型服务配置类型（沿用 OllamaConfig 名称，provider 决定使用哪种接口）
 export type OllamaConfig = {
+  provider: ProviderType;
   baseUrl: string;
+  apiKey?: string; // API Key（Ollama 与本地 llama.cpp 通常不需要）
   model: string;
   temperature: number;
   maxTokens: number;
+  numCtx?: number; // 模型实际加载的上下文长度（Ollama num_ctx），不填使用模型默认值
+  topP?: number;
+  topK?: number;
+  repeatPenalty?: number;
+  seed?: number; // 固定随机种子，便于复现输出
+  stop?: string[]; // 停止序列
+  keepAlive?: string; // 模型在内存中保留的时间（Ollama keep_alive），如 5m、-1
+  contextWindow: number; // 上下文窗口预算（token），超出后裁剪或摘要最早的对话轮次
+  memoryStrategy: MemoryStrategy;
   showThinking: boolean;
 };
 
+// 历史记忆溢出处理策略：trim 直接丢弃最早的轮次，summarize 将其压缩为摘要
+export type MemoryStrategy = 'trim' | 'summarize';
+
+
+// 生成参数：可以在会话中单独覆盖，也可以保存为预设
+export type SamplingOptions = Pick<
+  OllamaConfig,
+  'temperature' | 'maxTokens' | 'numCtx' | 'topP' | 'topK' | 'repeatPenalty' | 'seed' | 'stop' | 'keepAlive'
+>;
+
+// 生成参数预设
+export type SamplingPreset = {
+  id: string;
+  name: string;
+  options: Partial<SamplingOptions>;
+  builtin?: boolean; // 内置预设不可删除
+};
+
+// 提示词模板：系统提示词，或带 {{变量}} 的用户消息模板，用户模板保存在 localStorage 中
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  kind: 'system' | 'user';
+  content: string;
+  builtin?: boolean; // 内置模板不可删除
+};
+
+// 命名的服务配置档，可在设置中保存并快速切换
+export type ProviderProfile = {
+  id: string;
+  name: string;
+  provider: ProviderType;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+};
+
+const PROVIDER_TYPES: ProviderType[] = ['ollama', 'openai', 'anthropic', 'llamacpp'];
 
 // 从环境变量读取配置
 export const OLLAMA_CONFIG: OllamaConfig = {
+  provider: PROVIDER_TYPES.find(type => type === import.meta.env.VITE_LLM_PROVIDER) ?? 'ollama',
   baseUrl: import.meta.env.VITE_OLLAMA_BASE_URL || 'http://localhost:11434',
   model: import.meta.env.VITE_OLLAMA_MODEL || 'qwen3:0.6b',
   temperature: Number(import.meta.env.VITE_OLLAMA_TEMPERATURE) || 0.7,
   maxTokens: Number(import.meta.env.VITE_OLLAMA_MAX_TOKENS) || 1000,
+  contextWindow: Number(import.meta.env.VITE_OLLAMA_CONTEXT_WINDOW) || 4096,
+  memoryStrategy: import.meta.env.VITE_MEMORY_STRATEGY === 'summarize' ? 'summarize' : 'trim',
   showThinking: import.meta.env.VITE_SHOW_THINKING === 'true',
 };
 
+// 工具代理服务地址：默认为空，即与页面同源（vite dev / preview 或独立服务）；
+// 前端单独部署时指向独立服务，如 https://tools.example.com
+export const TOOL_SERVER_URL = (import.meta.env.VITE_TOOL_SERVER_URL || '').replace(/\/$/, '');
+
 
 // 聊天消息类型
 export type ChatMessage = {
   id: string;
+  parentId?: string | null; // 父消息 ID（根消息为 null），消息按此组成分支树
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: number;
   thinking?: string; // 思考过程（仅 assistant 消息有）
   isStreaming?: boolean; // 是否正在流式输出
   toolCall?: boolean; // 是否使用了工具调用
+  toolCalls?: ToolCallResult[]; // 本轮的工具调用及结果（用于多轮上下文回放）
+  extraction?: ExtractionResult; // Agent 模式的结构化提取结果（content 为提取摘要）
+  interrupted?: boolean; // 是否被用户中断（content 为中断前已生成的部分）
+  attachments?: Attachment[]; // 用户消息附带的图片和文件
+  citations?: Citation[]; // 回答引用的知识库片段
+  usage?: TokenUsage; // 生成回答消耗的 token（工具调用的多轮请求合计）
+  metrics?: MessageMetrics; // 生成回答的耗时与速度
+};
+
+// 消息附件：图片以 data URL 发送给视觉模型，文本/PDF 提取文字后放入上下文
+export type Attachment = {
+  id: string;
+  kind: 'image' | 'document';
+  name: string;
+  mimeType: string;
+  size: number; // 原始文件大小（字节）
+  dataUrl?: string; // 图片内容（压缩后的 data URL）
+  text?: string; // 文档提取出的文字
+  truncated?: boolean; // 文档过长，text 只保留了前面部分
 };
 
 // 工具调用结果类型
 export type ToolCallResult = {
+  id?: string; // 模型生成的工具调用 ID
   toolName: string;
+  args?: Record<string, unknown>; // 工具调用参数
   success: boolean;
   result?: unknown;
   error?: string;
+  fetchStats?: FetchStats; // 工具发出的 HTTP 请求统计，用于展示是否命中缓存
+};
+
+// 工具 HTTP 请求统计
+export type FetchStats = {
+  requests: number; // 请求总数（含命中缓存的请求）
+  cacheHits: number; // 命中缓存或复用进行中请求的次数
+};
+
+// 生成中的工具调用（流式输出时参数逐步拼接）
+export type ToolCallDraft = {
+  index: number; // 在本轮工具调用中的序号
+  id?: string;
+  name: string;
+  args: string; // 目前已生成的参数 JSON 片段
+};
+
+// token 用量
+export type TokenUsage = {
+  inputTokens: number; // 输入（提示词）token 数
+  outputTokens: number; // 输出 token 数
+  outputDurationMs?: number; // 生成输出的耗时（Ollama 的 eval_duration，其他服务不提供）
+};
+
+// 回答的性能指标
+export type MessageMetrics = {
+  model?: string; // 生成回答的模型
+  ttftMs?: number; // 首字延迟：从发送到收到第一段思考或回答（非流式模式没有）
+  durationMs: number; // 总耗时（含知识库检索和工具调用）
+  tokensPerSecond?: number; // 输出速度
+};
+
+// 会话类型（持久化到 IndexedDB）
+export type ChatSession = {
+  id: string;
+  title: string;
+  model: string; // 会话使用的模型
+  systemPrompt: string; // 会话的系统提示词
+  disabledTools?: string[]; // 会话中禁用的工具（未列出的工具默认启用）
+  sampling?: Partial<SamplingOptions>; // 会话覆盖的生成参数（未列出的参数使用全局配置）
+  knowledgeBaseIds?: string[]; // 会话启用的知识库（为空时不检索）
+  extractionSchemaId?: string; // Agent 模式使用的提取模板（默认为用户信息）
+  messages: ChatMessage[]; // 会话中的全部消息（含所有分支）
+  currentLeafId?: string | null; // 当前显示分支的最后一条消息
+  createdAt: number;
+  updatedAt: number;
+};
+
+// 知识库：文档切分后用 Ollama 嵌入模型向量化，保存在 IndexedDB 中
+export type KnowledgeBase = {
+  id: string;
+  name: string;
+  baseUrl: string; // 生成向量使用的 Ollama 服务地址
+  embeddingModel: string; // 嵌入模型，检索时必须使用同一个模型
+  documents: KnowledgeDocument[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type KnowledgeDocument = {
+  id: string;
+  name: string;
+  size: number; // 原始文件大小（字节）
+  chunkCount: number;
+  createdAt: number;
+};
+
+// 文档片段及其向量（knowledgeChunks 仓库中的一条记录）
+export type KnowledgeChunk = {
+  id: string;
+  knowledgeBaseId: string;
+  documentId: string;
+  documentName: string;
+  index: number; // 片段在文档中的序号
+  text: string;
+  embedding: number[];
+};
+
+// 回答引用的来源片段，index 对应回答中的 [n] 标记
+export type Citation = {
+  index: number;
+  knowledgeBaseName: string;
+  documentName: string;
+  chunkIndex: number;
+  text: string;
+  score: number; // 与问题的余弦相似度
+};
+
+// JSON Schema（只使用其中的结构化子集：type、properties、required、items、enum 等）
+export type JsonSchema = Record<string, unknown>;
+
+// 结构化提取模板：按 JSON Schema 从文本中提取数据，用户模板保存在 localStorage 中
+export type ExtractionSchema = {
+  id: string;
+  name: string;
+  jsonSchema: JsonSchema;
+  builtin?: boolean;
+};
+
+// 结构化提取结果，校验未通过时 data 为尽可能完整的部分结果
+export type ExtractionResult = {
+  schemaId: string;
+  schemaName: string;
+  jsonSchema: JsonSchema; // 提取时使用的 Schema，用于渲染结果卡片
+  data: Record<string, unknown>;
+  issues?: ExtractionIssue[]; // 未通过校验的字段，为空表示全部通过
+  attempts?: number; // 模型输出的次数（含修正）
+};
+
+// 字段校验问题：missing 为缺少必填字段，invalid 为值不符合 Schema
+export type ExtractionIssue = {
+  path: Array<string | number>;
+  kind: 'missing' | 'invalid';
+  message: string;
 };